@@ -0,0 +1,140 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+    abortable,
+    abortableDelay,
+    abortReason,
+    createDeadline,
+    getScrapeStatus,
+    ScrapeCancelledError,
+    ScrapeTimeoutError
+} from '../utils/abort';
+import { createHostLimiter } from '../utils/politeness';
+import { runScraper } from '../utils/scraper';
+import { createTableScraper } from '../utils/tableScraper';
+
+describe('abortReason', () => {
+    it('should keep scrape errors and turn other reasons into cancellations', () => {
+        const timeout = new ScrapeTimeoutError(100);
+        const controller = new AbortController();
+        controller.abort(timeout);
+        expect(abortReason(controller.signal)).toBe(timeout);
+
+        const plain = new AbortController();
+        plain.abort();
+        expect(abortReason(plain.signal)).toEqual(new ScrapeCancelledError('Scrape was cancelled'));
+
+        const explained = new AbortController();
+        explained.abort(new Error('Shutting down'));
+        expect(abortReason(explained.signal)).toEqual(new ScrapeCancelledError('Shutting down'));
+    });
+});
+
+describe('abortable', () => {
+    it('should settle with the work when it finishes first', async () => {
+        const controller = new AbortController();
+
+        await expect(abortable(Promise.resolve('done'), controller.signal)).resolves.toBe('done');
+        await expect(abortable(Promise.reject(new Error('broken')), controller.signal)).rejects.toThrow('broken');
+    });
+
+    it('should reject as soon as the signal is aborted', async () => {
+        const controller = new AbortController();
+        const waiting = abortable(new Promise(() => undefined), controller.signal);
+        controller.abort();
+
+        await expect(waiting).rejects.toBeInstanceOf(ScrapeCancelledError);
+        await expect(abortableDelay(10000, controller.signal)).rejects.toBeInstanceOf(ScrapeCancelledError);
+    });
+});
+
+describe('createDeadline', () => {
+    it('should time out with a labelled error', async () => {
+        const deadline = createDeadline(undefined, 20, 'SKY scrape');
+
+        await expect(abortableDelay(10000, deadline.signal)).rejects.toEqual(new ScrapeTimeoutError(20, 'SKY scrape timed out after 20ms'));
+        deadline.dispose();
+    });
+
+    it('should follow its parent until disposed', () => {
+        const parent = new AbortController();
+        const followed = createDeadline(parent.signal);
+        const disposed = createDeadline(parent.signal);
+        disposed.dispose();
+        parent.abort(new ScrapeTimeoutError(50, 'Scrape run timed out after 50ms'));
+
+        expect(abortReason(followed.signal).message).toBe('Scrape run timed out after 50ms');
+        expect(disposed.signal.aborted).toBe(false);
+        expect(createDeadline(parent.signal).signal.aborted).toBe(true);
+    });
+});
+
+describe('getScrapeStatus', () => {
+    it.each([
+        [true, undefined, 'succeeded'],
+        [false, new Error('Timeout'), 'failed'],
+        [false, new ScrapeCancelledError(), 'cancelled'],
+        [false, new ScrapeTimeoutError(100), 'timed-out']
+    ])('should map success %s and error %p to %s', (success, error, status) => {
+        expect(getScrapeStatus(success as boolean, error)).toBe(status);
+    });
+});
+
+describe('runScraper cancellation', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const pending: http.ServerResponse[] = [];
+
+    const scraper = () => createTableScraper({
+        name: 'Guide',
+        url: `${baseUrl}/guide`,
+        mode: 'http',
+        rowSelector: 'tr',
+        columns: { number: 'td.number', name: 'td.name' }
+    });
+
+    beforeAll(async () => {
+        // Never answers, like a hung page
+        server = http.createServer((_req, res) => {
+            pending.push(res);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        pending.forEach(res => res.destroy());
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should stop a hung request when the signal is aborted', async () => {
+        const deadline = createDeadline(undefined, 100, 'Guide scrape');
+        const started = Date.now();
+
+        await expect(runScraper(scraper(), { signal: deadline.signal }))
+            .rejects.toEqual(new ScrapeTimeoutError(100, 'Guide scrape timed out after 100ms'));
+        expect(Date.now() - started).toBeLessThan(5000);
+        deadline.dispose();
+    });
+
+    it('should not start once the signal is aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(runScraper(scraper(), { signal: controller.signal }))
+            .rejects.toBeInstanceOf(ScrapeCancelledError);
+    });
+
+    it('should give up a place in the host queue', async () => {
+        const hostLimiter = createHostLimiter();
+        const controller = new AbortController();
+        const busy = hostLimiter.schedule(`${baseUrl}/busy`, { concurrency: 1 }, () => new Promise(resolve => setTimeout(resolve, 100)));
+        const queued = hostLimiter.schedule(`${baseUrl}/queued`, { concurrency: 1 }, async () => 'started', controller.signal);
+        controller.abort();
+
+        await expect(queued).rejects.toBeInstanceOf(ScrapeCancelledError);
+        await busy;
+        await expect(hostLimiter.schedule(`${baseUrl}/next`, { concurrency: 1 }, async () => 'next')).resolves.toBe('next');
+    });
+});
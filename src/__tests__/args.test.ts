@@ -0,0 +1,162 @@
+import { formatHelp, formatScraperHelp, parseArgs, parseScraperArgs, UsageError } from '../utils/args';
+
+describe('parseArgs', () => {
+    it('should default to the scrape command', () => {
+        expect(parseArgs([])).toMatchObject({ command: 'scrape', formats: ['json'], writeFiles: false });
+        expect(parseArgs(['--provider', 'SKY', '--write-files', '--max-concurrent', '2'])).toMatchObject({
+            command: 'scrape',
+            provider: 'SKY',
+            writeFiles: true,
+            maxConcurrent: 2
+        });
+    });
+
+    it('should parse subcommands with their positionals and flags', () => {
+        expect(parseArgs(['diff', 'before', 'after', '--json'])).toMatchObject({
+            command: 'diff',
+            positionals: ['before', 'after'],
+            json: true
+        });
+        expect(parseArgs(['export', './data', '--format=M3U', '--output', 'out.m3u'])).toMatchObject({
+            command: 'export',
+            positionals: ['./data'],
+            formats: ['m3u'],
+            output: 'out.m3u'
+        });
+        expect(parseArgs(['scrape', '--record', './snapshots', '--plugin', 'a.js', '--plugin', 'b.yaml'])).toMatchObject({
+            snapshotMode: 'record',
+            snapshotDir: './snapshots',
+            plugins: ['a.js', 'b.yaml']
+        });
+    });
+
+    it('should parse the history command', () => {
+        expect(parseArgs(['history', 'Virgin', '--at', '2026-03-31', '--history-file', 'h.jsonl'])).toMatchObject({
+            command: 'history',
+            positionals: ['Virgin'],
+            at: '2026-03-31',
+            historyFile: 'h.jsonl'
+        });
+        expect(parseArgs(['history', '--channel', 'Sky Atlantic', '--json'])).toMatchObject({
+            command: 'history',
+            positionals: [],
+            channel: 'Sky Atlantic',
+            json: true
+        });
+        expect(parseArgs(['scrape', '--history-file', 'h.jsonl'])).toMatchObject({ historyFile: 'h.jsonl' });
+        expect(parseArgs(['scrape', '--diagnostics-dir', 'diagnostics'])).toMatchObject({ diagnosticsDir: 'diagnostics' });
+    });
+
+    it('should parse the run and provider timeouts', () => {
+        expect(parseArgs(['--timeout', '600000', '--provider-timeout=120000'])).toMatchObject({
+            command: 'scrape',
+            timeout: 600000,
+            providerTimeout: 120000
+        });
+    });
+
+    it('should parse the annotate command', () => {
+        expect(parseArgs(['annotate', 'in.m3u', './data', '--provider', 'SKY', '--sort', '--output', 'out.m3u'])).toMatchObject({
+            command: 'annotate',
+            positionals: ['in.m3u', './data'],
+            provider: 'SKY',
+            sort: true,
+            output: 'out.m3u'
+        });
+        expect(parseArgs(['annotate', 'in.m3u', '--provider', 'SKY'])).toMatchObject({ positionals: ['in.m3u'], sort: false });
+    });
+
+    it('should parse the compare command with any number of providers', () => {
+        expect(parseArgs(['compare', './data'])).toMatchObject({ command: 'compare', positionals: ['./data'], csv: false, json: false });
+        expect(parseArgs(['compare', './data', 'SKY', 'Virgin', '--csv'])).toMatchObject({
+            command: 'compare',
+            positionals: ['./data', 'SKY', 'Virgin'],
+            csv: true
+        });
+    });
+
+    it('should flag help without checking positionals', () => {
+        expect(parseArgs(['diff', '--help'])).toMatchObject({ command: 'diff', help: true });
+        expect(parseArgs(['--write-files', '-h'])).toMatchObject({ command: 'scrape', help: true });
+        expect(parseArgs(['--help'])).toMatchObject({ command: 'help', positionals: [] });
+        expect(parseArgs(['help', 'export'])).toMatchObject({ command: 'help', positionals: ['export'] });
+    });
+
+    it.each([
+        [['frobnicate'], 'Unknown command "frobnicate"'],
+        [['--verbose'], 'Unknown option "--verbose" for scrape'],
+        [['diff', 'a', 'b', '--write-files'], 'Unknown option "--write-files" for diff'],
+        [['--max-concurrent', 'abc'], '--max-concurrent must be a positive integer, got "abc"'],
+        [['--max-concurrent', '0'], '--max-concurrent must be a positive integer, got "0"'],
+        [['--provider'], 'Option --provider requires a value <name>'],
+        [['--region', '--write-files'], 'Option --region requires a value <region>'],
+        [['--write-files=yes'], 'Option --write-files does not take a value'],
+        [['--record', 'a', '--replay', 'b'], '--record and --replay cannot be used together'],
+        [['--timeout', '10s'], '--timeout must be a positive number of milliseconds, got "10s"'],
+        [['--timeout', '0'], '--timeout must be a positive number of milliseconds, got "0"'],
+        [['--provider-timeout', '-1'], '--provider-timeout must be a positive number of milliseconds, got "-1"'],
+        [['--provider-timeout', '0'], '--provider-timeout must be a positive number of milliseconds, got "0"'],
+        [['--log-level', 'loud'], '--log-level must be one of: debug, info, warn, error, silent, got "loud"'],
+        [['--log-format', 'xml'], '--log-format must be one of: text, ndjson, got "xml"'],
+        [['diff', 'a'], 'Usage: scrape-channel-listings diff <before> <after> [options] (missing arguments)'],
+        [['scrape', 'SKY'], 'Usage: scrape-channel-listings scrape [options] (unexpected argument "SKY")'],
+        [['history', 'SKY', '--at', 'last March'], '--at must be a date, e.g. 2026-03-31, got "last March"'],
+        [['history', 'SKY', '--at', '2026-03-31', '--channel', 'BBC ONE'], '--at and --channel cannot be used together'],
+        [['compare', './data', '--json', '--csv'], '--json and --csv cannot be used together'],
+        [['compare'], 'Usage: scrape-channel-listings compare <path> [provider...] [options] (missing arguments)'],
+        [['help', 'nope'], 'Unknown command "nope"']
+    ])('should reject %j', (argv, message) => {
+        expect(() => parseArgs(argv)).toThrow(new UsageError(message));
+    });
+
+    it('should record the command a usage error belongs to', () => {
+        expect(() => parseArgs(['validate'])).toThrow(expect.objectContaining({ name: 'UsageError', command: 'validate' }));
+    });
+});
+
+describe('parseScraperArgs', () => {
+    it('should accept the shared scrape flags', () => {
+        expect(parseScraperArgs(['--write-files', '--format', 'csv', '--region', 'Wales', '--config', 'c.json'])).toMatchObject({
+            command: 'scrape',
+            writeFiles: true,
+            formats: ['csv'],
+            region: 'Wales',
+            config: 'c.json'
+        });
+        expect(parseScraperArgs(['--log-level', 'debug', '--log-format=ndjson'])).toMatchObject({
+            logLevel: 'debug',
+            logFormat: 'ndjson'
+        });
+    });
+
+    it('should reject flags that only apply to the full CLI', () => {
+        expect(() => parseScraperArgs(['--files'])).toThrow('Unknown option "--files" for scrape');
+        expect(() => parseScraperArgs(['--provider', 'SKY'])).toThrow('Unknown option "--provider" for scrape');
+    });
+});
+
+describe('formatHelp', () => {
+    it('should list every command', () => {
+        const help = formatHelp();
+
+        ['list-providers', 'scrape', 'export', 'validate', 'diff', 'compare', 'annotate', 'history', 'help'].forEach(command => {
+            expect(help).toMatch(new RegExp(`^  ${command} `, 'm'));
+        });
+    });
+
+    it('should describe the options of a command', () => {
+        const help = formatHelp('diff');
+
+        expect(help).toContain('Usage: scrape-channel-listings diff <before> <after> [options]');
+        expect(help).toMatch(/--json\s+Print JSON instead of a readable report/);
+        expect(help).not.toContain('--write-files');
+    });
+
+    it('should describe the scraper entry point options', () => {
+        const help = formatScraperHelp('npm run scrape:sky --');
+
+        expect(help).toContain('Usage: npm run scrape:sky -- [options]');
+        expect(help).toMatch(/--write-files/);
+        expect(help).not.toMatch(/--provider/);
+    });
+});
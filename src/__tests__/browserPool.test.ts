@@ -0,0 +1,67 @@
+import playwright from 'playwright';
+import { createBrowserPool } from '../utils/browserPool';
+
+jest.mock('playwright', () => ({
+    __esModule: true,
+    default: { chromium: { launch: jest.fn() } }
+}));
+
+const mockBrowser = () => {
+    const browser = {
+        newContext: jest.fn(async () => ({ close: jest.fn(async () => undefined) })),
+        close: jest.fn(async () => undefined)
+    };
+    (playwright.chromium.launch as jest.Mock).mockResolvedValue(browser);
+    return browser;
+};
+
+describe('createBrowserPool', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should launch the browser lazily and share it between contexts', async () => {
+        const browser = mockBrowser();
+        const pool = createBrowserPool();
+
+        expect(playwright.chromium.launch).not.toHaveBeenCalled();
+
+        await Promise.all([pool.acquire(), pool.acquire()]);
+
+        expect(playwright.chromium.launch).toHaveBeenCalledTimes(1);
+        expect(browser.newContext).toHaveBeenCalledTimes(2);
+        await pool.close();
+    });
+
+    it('should close open contexts and the browser on close', async () => {
+        const browser = mockBrowser();
+        const pool = createBrowserPool();
+        const released = await pool.acquire();
+        const open = await pool.acquire();
+
+        await pool.release(released);
+        await pool.close();
+
+        expect(released.close).toHaveBeenCalledTimes(1);
+        expect(open.close).toHaveBeenCalledTimes(1);
+        expect(browser.close).toHaveBeenCalledTimes(1);
+        await expect(pool.acquire()).rejects.toThrow('Browser pool has been closed');
+    });
+
+    it('should leave signal handling to the caller', async () => {
+        mockBrowser();
+        const listeners = process.listenerCount('SIGINT');
+        const pool = createBrowserPool();
+
+        await pool.acquire();
+        expect(process.listenerCount('SIGINT')).toBe(listeners);
+
+        await pool.close();
+    });
+
+    it('should not launch a browser when closed unused', async () => {
+        await createBrowserPool().close();
+
+        expect(playwright.chromium.launch).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { cacheAge, readCache, writeCache } from '../utils/cache';
+
+describe('result cache', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write and read lineups by provider name', () => {
+        const channels = [{ number: '101', name: 'BBC ONE' }];
+        const entry = writeCache(path.join(dir, 'nested'), 'SKY', channels, new Date('2024-03-01T12:00:00Z'));
+
+        expect(entry).toEqual({ provider: 'SKY', cachedAt: '2024-03-01T12:00:00.000Z', channels });
+        expect(readCache(path.join(dir, 'nested'), 'sky')).toEqual(entry);
+        expect(cacheAge(entry, Date.parse('2024-03-01T12:00:05Z'))).toBe(5000);
+    });
+
+    it('should ignore missing and unreadable entries', () => {
+        fs.writeFileSync(path.join(dir, 'dish.json'), '{ not json');
+        fs.writeFileSync(path.join(dir, 'virgin.json'), JSON.stringify({ provider: 'Virgin', channels: [] }));
+
+        expect(readCache(dir, 'SKY')).toBeUndefined();
+        expect(readCache(dir, 'DISH')).toBeUndefined();
+        expect(readCache(dir, 'Virgin')).toBeUndefined();
+    });
+});
@@ -0,0 +1,43 @@
+import {
+    addCanonicalChannels,
+    findUnmatchedChannels,
+    getCanonicalChannel,
+    resolveCanonicalId
+} from '../utils/catalogue';
+
+describe('resolveCanonicalId', () => {
+    it('should resolve names and aliases after normalization', () => {
+        expect(resolveCanonicalId('BBC One')).toBe('bbc-one');
+        expect(resolveCanonicalId('ITV1/STV/UTV')).toBe('itv1');
+        expect(resolveCanonicalId('Channel5+1')).toBe('channel-5-plus-1');
+        expect(resolveCanonicalId('Nick')).toBe('nickelodeon');
+    });
+
+    it('should return undefined for channels not in the catalogue', () => {
+        expect(resolveCanonicalId('Not A Real Channel')).toBeUndefined();
+    });
+});
+
+describe('addCanonicalChannels', () => {
+    it('should make new entries and aliases resolvable', () => {
+        addCanonicalChannels([{ id: 'gold', name: 'Gold', aliases: ['UKTV Gold'] }]);
+
+        expect(getCanonicalChannel('gold')?.name).toBe('Gold');
+        expect(resolveCanonicalId('uktv gold')).toBe('gold');
+    });
+
+    it('should reject entries without an id', () => {
+        expect(() => addCanonicalChannels([{ id: '', name: 'Nameless' }])).toThrow('Canonical channels must have an id and a name');
+    });
+});
+
+describe('findUnmatchedChannels', () => {
+    it('should list unique names without a canonical ID', () => {
+        expect(findUnmatchedChannels([
+            { number: '101', name: 'BBC ONE', canonicalId: 'bbc-one' },
+            { number: '900', name: 'LOCAL TV' },
+            { number: '901', name: 'LOCAL TV' },
+            { number: '902', name: 'SHOPPING' }
+        ])).toEqual(['LOCAL TV', 'SHOPPING']);
+    });
+});
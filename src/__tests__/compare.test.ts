@@ -0,0 +1,102 @@
+import { compareLineups, formatComparisonCsv, formatComparisonTable } from '../utils/compare';
+import type { ProviderChannels } from '../index';
+
+const lineups: ProviderChannels[] = [
+    {
+        provider: 'SKY',
+        channels: [
+            { number: '101', name: 'BBC ONE', canonicalId: 'bbc-one' },
+            { number: '106', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic' },
+            { number: '526', name: 'Discovery Science', canonicalId: 'discovery-science' },
+            { number: '999', name: 'SKY SHOWCASE' }
+        ]
+    },
+    {
+        provider: 'Virgin',
+        channels: [
+            { number: '101', name: 'BBC ONE', canonicalId: 'bbc-one' },
+            { number: '107', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic' },
+            { number: '207', name: 'SKY ATLANTIC HD', canonicalId: 'sky-atlantic' },
+            { number: '300', name: 'Local, "News"' }
+        ]
+    }
+];
+
+describe('compareLineups', () => {
+    it('should build a channel-by-provider matrix matched on canonical ID', () => {
+        const comparison = compareLineups(lineups);
+
+        expect(comparison.providers).toEqual(['SKY', 'Virgin']);
+        expect(comparison.channels).toEqual([
+            { key: 'bbc-one', name: 'BBC One', canonicalId: 'bbc-one', numbers: { SKY: ['101'], Virgin: ['101'] } },
+            { key: 'discovery-science', name: 'Discovery Science', canonicalId: 'discovery-science', numbers: { SKY: ['526'] } },
+            { key: 'LOCAL NEWS', name: 'Local, "News"', numbers: { Virgin: ['300'] } },
+            { key: 'sky-atlantic', name: 'Sky Atlantic', canonicalId: 'sky-atlantic', numbers: { SKY: ['106'], Virgin: ['107', '207'] } },
+            { key: 'SKY SHOWCASE', name: 'SKY SHOWCASE', numbers: { SKY: ['999'] } }
+        ]);
+    });
+
+    it('should list the shared and exclusive channels', () => {
+        const comparison = compareLineups(lineups);
+
+        expect(comparison.shared).toEqual(['BBC One', 'Sky Atlantic']);
+        expect(comparison.exclusive).toEqual({
+            SKY: ['Discovery Science', 'SKY SHOWCASE'],
+            Virgin: ['Local, "News"']
+        });
+    });
+
+    it('should match channels without a canonical ID by normalized name', () => {
+        const comparison = compareLineups([
+            { provider: 'DIRECTV', channels: [{ number: '1', name: 'Local News' }, { number: '2', name: 'Disc. Science' }] },
+            { provider: 'DISH', channels: [{ number: '9', name: 'LOCAL NEWS.' }] }
+        ]);
+
+        expect(comparison.channels).toEqual([
+            { key: 'discovery-science', name: 'Discovery Science', canonicalId: 'discovery-science', numbers: { DIRECTV: ['2'] } },
+            { key: 'LOCAL NEWS', name: 'Local News', numbers: { DIRECTV: ['1'], DISH: ['9'] } }
+        ]);
+        expect(comparison.shared).toEqual(['Local News']);
+    });
+
+    it('should merge lineups of the same provider and drop repeated numbers', () => {
+        const comparison = compareLineups([
+            { provider: 'SKY', channels: [{ number: '101', name: 'BBC ONE' }] },
+            { provider: 'sky', channels: [{ number: '101', name: 'BBC ONE' }, { number: '102', name: 'BBC TWO' }] }
+        ]);
+
+        expect(comparison.providers).toEqual(['SKY']);
+        expect(comparison.channels.map(channel => channel.numbers)).toEqual([{ SKY: ['101'] }, { SKY: ['102'] }]);
+        expect(comparison.exclusive).toEqual({ SKY: [] });
+    });
+});
+
+describe('formatComparisonTable', () => {
+    it('should align the matrix and summarise the shared and exclusive channels', () => {
+        expect(formatComparisonTable(compareLineups(lineups))).toBe([
+            'Channel            SKY  Virgin',
+            'BBC One            101  101',
+            'Discovery Science  526  -',
+            'Local, "News"      -    300',
+            'Sky Atlantic       106  107/207',
+            'SKY SHOWCASE       999  -',
+            '',
+            'Shared by all 2 providers: 2',
+            'Only on SKY: 2 (Discovery Science, SKY SHOWCASE)',
+            'Only on Virgin: 1 (Local, "News")'
+        ].join('\n'));
+    });
+});
+
+describe('formatComparisonCsv', () => {
+    it('should write one column per provider, escaping fields', () => {
+        expect(formatComparisonCsv(compareLineups(lineups)).split('\n')).toEqual([
+            'channel,canonicalId,SKY,Virgin',
+            'BBC One,bbc-one,101,101',
+            'Discovery Science,discovery-science,526,',
+            '"Local, ""News""",,,300',
+            'Sky Atlantic,sky-atlantic,106,107 207',
+            'SKY SHOWCASE,,999,'
+        ]);
+    });
+});
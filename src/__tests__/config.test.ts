@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    CONFIG_FILE_NAME,
+    getProviderSettings,
+    loadConfig,
+    mergeSettings,
+    resolveSettings,
+    validateConfig
+} from '../utils/config';
+
+describe('validateConfig', () => {
+    it('should accept global and per-provider settings', () => {
+        const config = {
+            headless: false,
+            blockedResources: ['image', 'font'],
+            retry: { attempts: 3, delay: 500 },
+            pageLoad: { timeout: 60000, waitUntil: 'load' },
+            outputDir: 'out',
+            providers: {
+                SKY: { retry: { attempts: 5 } }
+            }
+        };
+
+        expect(validateConfig(config)).toBe(config);
+    });
+
+    it('should list every problem', () => {
+        expect(() => validateConfig({
+            headless: 'no',
+            blockedResources: ['pictures'],
+            retry: { attempts: 0, backoff: 2 },
+            pageLoad: { waitUntil: 'idle' },
+            colour: 'blue',
+            providers: { SKY: { providers: {} } }
+        }, 'test.json')).toThrow([
+            'Invalid configuration in test.json:',
+            '  - headless must be a boolean',
+            '  - blockedResources must be a list of resource types: document, stylesheet, image, media, font, script, texttrack, xhr, fetch, eventsource, websocket, manifest, other',
+            '  - retry.attempts must be a positive integer',
+            '  - retry.backoff is not a known setting',
+            '  - pageLoad.waitUntil must be one of: load, domcontentloaded, networkidle, commit',
+            '  - colour is not a known setting',
+            '  - providers.SKY.providers is only allowed at the top level'
+        ].join('\n'));
+    });
+
+    it('should check the politeness settings', () => {
+        expect(validateConfig({
+            userAgents: ['AgentA/1.0'],
+            userAgentRotation: 'round-robin',
+            rateLimit: { concurrency: 1, interval: 2000 },
+            robotsTxt: true,
+            providers: { SKY: { proxy: { server: 'socks5://127.0.0.1:1080', bypass: '.example.com' } } }
+        })).toBeTruthy();
+
+        expect(() => validateConfig({
+            userAgents: [],
+            userAgentRotation: 'sometimes',
+            rateLimit: { concurrency: 0, burst: 2 },
+            robotsTxt: 'yes',
+            proxy: { server: 'ftp://proxy', user: 'me' },
+            providers: { SKY: { proxy: {} } }
+        }, 'test.json')).toThrow([
+            'Invalid configuration in test.json:',
+            '  - userAgents must be a non-empty list of non-empty strings',
+            '  - userAgentRotation must be one of: fixed, round-robin, random',
+            '  - rateLimit.concurrency must be a positive integer',
+            '  - rateLimit.burst is not a known setting',
+            '  - robotsTxt must be a boolean',
+            '  - proxy.server must be a URL with one of the protocols: http:, https:, socks4:, socks5:',
+            '  - proxy.user is not a known setting',
+            '  - providers.SKY.proxy.server is required'
+        ].join('\n'));
+    });
+
+    it('should reject a configuration that is not an object', () => {
+        expect(() => validateConfig([])).toThrow('config must be an object');
+    });
+});
+
+describe('loadConfig', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should discover the config file in the working directory', () => {
+        fs.writeFileSync(path.join(dir, CONFIG_FILE_NAME), JSON.stringify({ retry: { attempts: 2 } }));
+
+        expect(loadConfig(undefined, dir)).toEqual({ retry: { attempts: 2 } });
+    });
+
+    it('should return an empty config when no file is found', () => {
+        expect(loadConfig(undefined, dir)).toEqual({});
+    });
+
+    it('should fail when a given file does not exist', () => {
+        expect(() => loadConfig('missing.json', dir)).toThrow(`Config file ${path.join(dir, 'missing.json')} not found`);
+    });
+
+    it('should fail on invalid JSON', () => {
+        fs.writeFileSync(path.join(dir, 'broken.json'), '{ headless: ');
+
+        expect(() => loadConfig('broken.json', dir)).toThrow('Could not parse config file');
+    });
+
+    it('should resolve directories against the config file', () => {
+        fs.mkdirSync(path.join(dir, 'conf'));
+        fs.writeFileSync(path.join(dir, 'conf', 'settings.json'), JSON.stringify({
+            outputDir: '../data',
+            historyFile: 'history.jsonl',
+            diagnosticsDir: 'diagnostics',
+            providers: { Virgin: { snapshotDir: 'snapshots' } }
+        }));
+
+        expect(loadConfig('conf/settings.json', dir)).toEqual({
+            outputDir: path.join(dir, 'data'),
+            historyFile: path.join(dir, 'conf', 'history.jsonl'),
+            diagnosticsDir: path.join(dir, 'conf', 'diagnostics'),
+            providers: { Virgin: { snapshotDir: path.join(dir, 'conf', 'snapshots') } }
+        });
+    });
+});
+
+describe('settings', () => {
+    it('should merge nested settings, later layers winning', () => {
+        expect(mergeSettings(
+            { headless: true, retry: { attempts: 2, delay: 100 } },
+            undefined,
+            { retry: { attempts: 4 }, pageLoad: { timeout: 1000 } }
+        )).toEqual({
+            headless: true,
+            retry: { attempts: 4, delay: 100 },
+            pageLoad: { timeout: 1000 }
+        });
+    });
+
+    it('should fill in the defaults and drop the providers section', () => {
+        const settings = resolveSettings({ pageLoad: { waitUntil: 'load' }, providers: { SKY: { headless: false } } } as any);
+
+        expect(settings).toEqual(expect.objectContaining({
+            headless: true,
+            blockedResources: ['image', 'stylesheet', 'font', 'media'],
+            retry: { attempts: 1, delay: 1000 },
+            pageLoad: { timeout: 30000, waitUntil: 'load' }
+        }));
+        expect(settings).not.toHaveProperty('providers');
+    });
+
+    it('should find provider settings case-insensitively', () => {
+        const config = { providers: { Virgin: { headless: false } } };
+
+        expect(getProviderSettings(config, 'VIRGIN')).toEqual({ headless: false });
+        expect(getProviderSettings(config, 'SKY')).toBeUndefined();
+        expect(getProviderSettings(undefined, 'SKY')).toBeUndefined();
+    });
+});
@@ -0,0 +1,166 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { chromium } from 'playwright';
+import { getDiagnosticsDir, writeDiagnostics } from '../utils/diagnostics';
+import { runScraper, type ScraperConfig } from '../utils/scraper';
+import type { ScraperSettings } from '../utils/config';
+import type { ScraperProgress } from '../utils/events';
+
+const describeWithBrowser = fs.existsSync(chromium.executablePath()) ? describe : describe.skip;
+
+const PAGE = `<table id="guide">
+    <tr><td class="number">101</td><td class="name">BBC One</td></tr>
+</table>`;
+
+describe('getDiagnosticsDir', () => {
+    it('should name the directory after the time and the run', () => {
+        expect(getDiagnosticsDir('/diagnostics', 'Sky Q', new Date('2026-03-31T18:04:05.123Z')))
+            .toBe(path.resolve('/diagnostics', '2026-03-31T18-04-05-123Z-sky-q'));
+    });
+});
+
+describe('writeDiagnostics', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'diagnostics-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write a file per capture', () => {
+        const runDir = path.join(dir, 'run');
+        const bundle = writeDiagnostics(runDir, new Error('No rows'), {
+            html: PAGE,
+            consoleLog: ['[log] rendered'],
+            abortedRequests: ['GET https://example.com/logo.png (image): net::ERR_FAILED']
+        });
+
+        expect(bundle).toEqual({
+            dir: runDir,
+            reason: 'No rows',
+            error: path.join(runDir, 'error.txt'),
+            html: path.join(runDir, 'page.html'),
+            consoleLog: path.join(runDir, 'console.log'),
+            abortedRequests: path.join(runDir, 'aborted-requests.txt')
+        });
+        expect(fs.readFileSync(bundle.error, 'utf8')).toMatch(/^Error: No rows\n {4}at /);
+        expect(fs.readFileSync(path.join(runDir, 'page.html'), 'utf8')).toBe(PAGE);
+        expect(fs.readFileSync(path.join(runDir, 'aborted-requests.txt'), 'utf8')).toBe('GET https://example.com/logo.png (image): net::ERR_FAILED\n');
+    });
+});
+
+describe('runScraper diagnostics', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let dir: string;
+
+    const scraper = (extra: Partial<ScraperConfig> = {}): ScraperConfig => ({
+        url: `${baseUrl}/guide`,
+        mode: 'http',
+        extract: async document => document.rows('#guide tr', { number: 'td.number', name: 'td.name' }),
+        ...extra
+    });
+    const run = async (config: ScraperConfig, settings: ScraperSettings = { diagnosticsDir: dir }) => {
+        const progress: ScraperProgress[] = [];
+        const outcome = runScraper(config, {
+            snapshotName: 'guide',
+            settings,
+            onProgress: event => progress.push(event)
+        });
+        await outcome.catch(() => undefined);
+        return { outcome, saved: progress.filter(event => event.type === 'diagnostics-saved') };
+    };
+
+    beforeAll(async () => {
+        server = http.createServer((_req, res) => {
+            res.writeHead(200, { 'content-type': 'text/html' });
+            res.end(PAGE);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'diagnostics-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should save the error and fetched HTML of a failed run', async () => {
+        const { outcome, saved } = await run(scraper({ extract: async () => { throw new Error('Layout changed'); } }));
+
+        await expect(outcome).rejects.toThrow('Layout changed');
+        expect(saved).toEqual([{ type: 'diagnostics-saved', url: `${baseUrl}/guide`, diagnostics: expect.objectContaining({ reason: 'Layout changed' }) }]);
+        const { diagnostics } = saved[0] as Extract<ScraperProgress, { type: 'diagnostics-saved' }>;
+        expect(path.dirname(diagnostics.dir)).toBe(dir);
+        expect(path.basename(diagnostics.dir)).toMatch(/^\d{4}-\d\d-\d\dT[\d-]+Z-guide$/);
+        expect(fs.readFileSync(path.join(diagnostics.dir, 'page.html'), 'utf8')).toBe(PAGE);
+        expect(diagnostics).not.toHaveProperty('trace');
+    });
+
+    it('should save diagnostics when the lineup fails validation', async () => {
+        const { outcome, saved } = await run(scraper({ validation: { minChannels: 5 } }));
+
+        await expect(outcome).resolves.toHaveLength(1);
+        expect(saved).toHaveLength(1);
+        const { diagnostics } = saved[0] as Extract<ScraperProgress, { type: 'diagnostics-saved' }>;
+        expect(diagnostics.reason).toBe('Expected at least 5 channels, got 1');
+        expect(fs.readFileSync(diagnostics.error, 'utf8')).toMatch(/^ValidationError: Expected at least 5 channels, got 1/);
+    });
+
+    it('should save nothing for a valid lineup or without a diagnostics directory', async () => {
+        expect((await run(scraper({ validation: { minChannels: 1 } }))).saved).toEqual([]);
+        expect((await run(scraper({ extract: async () => { throw new Error('Layout changed'); } }), {})).saved).toEqual([]);
+        expect(fs.readdirSync(dir)).toEqual([]);
+    });
+});
+
+describeWithBrowser('runScraper diagnostics in the browser', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'diagnostics-'));
+        fs.writeFileSync(path.join(dir, 'guide.html'), `${PAGE}<img src="https://example.com/logo.png"><script>console.log('rendered')</script>`);
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should save a screenshot, console log, aborted requests and trace', async () => {
+        const progress: ScraperProgress[] = [];
+
+        await expect(runScraper({ url: 'https://example.com/guide', scrapeFunction: async () => { throw new Error('Layout changed'); } }, {
+            snapshotMode: 'replay',
+            snapshotDir: dir,
+            snapshotName: 'guide',
+            settings: { diagnosticsDir: path.join(dir, 'diagnostics') },
+            onProgress: event => progress.push(event)
+        })).rejects.toThrow('Layout changed');
+
+        const saved = progress.find(event => event.type === 'diagnostics-saved') as Extract<ScraperProgress, { type: 'diagnostics-saved' }>;
+        const { diagnostics } = saved;
+        expect(diagnostics).toEqual(expect.objectContaining({
+            screenshot: path.join(diagnostics.dir, 'screenshot.png'),
+            html: path.join(diagnostics.dir, 'page.html'),
+            consoleLog: path.join(diagnostics.dir, 'console.log'),
+            abortedRequests: path.join(diagnostics.dir, 'aborted-requests.txt'),
+            trace: path.join(diagnostics.dir, 'trace.zip')
+        }));
+        ['screenshot.png', 'page.html', 'trace.zip'].forEach(file => expect(fs.existsSync(path.join(diagnostics.dir, file))).toBe(true));
+        expect(fs.readFileSync(path.join(diagnostics.dir, 'console.log'), 'utf8')).toContain('[log] rendered');
+        expect(fs.readFileSync(path.join(diagnostics.dir, 'aborted-requests.txt'), 'utf8')).toContain('GET https://example.com/logo.png (image)');
+    });
+});
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { diffLineups, formatLineupDiff, loadLineups } from '../utils/diff';
+
+const before = [{
+    provider: 'SKY',
+    channels: [
+        { number: '101', name: 'BBC ONE', canonicalId: 'bbc-one' },
+        { number: '106', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic' },
+        { number: '110', name: 'SKY WITNESS' },
+        { number: '120', name: 'PICK' },
+        { number: '150', name: 'GONE TV' }
+    ]
+}];
+
+const after = [{
+    provider: 'sky',
+    channels: [
+        { number: '101', name: 'BBC ONE HD', canonicalId: 'bbc-one' },
+        { number: '108', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic' },
+        { number: '110', name: 'SKY CRIME' },
+        { number: '120', name: 'PICK' },
+        { number: '160', name: 'NEW TV' }
+    ]
+}];
+
+describe('diffLineups', () => {
+    it('should report added, removed, renumbered and renamed channels', () => {
+        expect(diffLineups(before, after)).toEqual([{
+            provider: 'SKY',
+            added: [{ number: '160', name: 'NEW TV' }],
+            removed: [{ number: '150', name: 'GONE TV' }],
+            renumbered: [{ name: 'SKY ATLANTIC', from: '106', to: '108' }],
+            renamed: [
+                { number: '101', from: 'BBC ONE', to: 'BBC ONE HD' },
+                { number: '110', from: 'SKY WITNESS', to: 'SKY CRIME' }
+            ]
+        }]);
+    });
+
+    it('should treat providers missing from one run as fully added or removed', () => {
+        const [diff] = diffLineups([], after);
+
+        expect(diff.provider).toBe('sky');
+        expect(diff.added).toHaveLength(5);
+        expect(diff.removed).toEqual([]);
+    });
+});
+
+describe('formatLineupDiff', () => {
+    it('should format a human-readable report', () => {
+        expect(formatLineupDiff(diffLineups(before, after))).toBe([
+            'SKY:',
+            '  + 160 NEW TV',
+            '  - 150 GONE TV',
+            '  # SKY ATLANTIC: 106 -> 108',
+            '  ~ 101: BBC ONE -> BBC ONE HD',
+            '  ~ 110: SKY WITNESS -> SKY CRIME'
+        ].join('\n'));
+    });
+
+    it('should note providers without changes', () => {
+        expect(formatLineupDiff(diffLineups(before, before))).toBe('SKY:\n  no changes');
+    });
+});
+
+describe('loadLineups', () => {
+    it('should load a directory of per-provider files', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lineups-'));
+        fs.writeFileSync(path.join(dir, 'sky.json'), JSON.stringify(after[0].channels));
+        fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+        fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify({ version: '1.0.0', providers: [] }));
+
+        try {
+            expect(loadLineups(dir)).toEqual(after);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { fetchHtml, fromHtml } from '../utils/document';
+import { runScraper } from '../utils/scraper';
+import { createTableScraper } from '../utils/tableScraper';
+
+const PAGE = `<!DOCTYPE html>
+<html><body>
+<table id="guide">
+    <tr><th>Name</th><th>Number</th></tr>
+    <tr><td class="name"> BBC One </td><td class="number">101</td></tr>
+    <tr><td class="name">A&amp;E</td><td class="number">118&nbsp;</td></tr>
+    <tr><td class="name">No number</td></tr>
+</table>
+</body></html>`;
+
+describe('fromHtml', () => {
+    it('should read the trimmed text of each column within each row', async () => {
+        const document = fromHtml(PAGE, 'https://example.com/guide');
+
+        await expect(document.rows('#guide tbody tr', { name: 'td.name', number: 'td.number', region: '' })).resolves.toEqual([
+            { name: '', number: '', region: '' },
+            { name: 'BBC One', number: '101', region: '' },
+            { name: 'A&E', number: '118', region: '' },
+            { name: 'No number', number: '', region: '' }
+        ]);
+        await expect(document.html()).resolves.toBe(PAGE);
+    });
+});
+
+describe('http mode', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let userAgents: (string | undefined)[];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            userAgents.push(req.headers['user-agent']);
+            if (req.url === '/guide') {
+                res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+                res.end(PAGE);
+            } else {
+                res.writeHead(404);
+                res.end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    beforeEach(() => {
+        userAgents = [];
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should fetch pages with the user agent', async () => {
+        await expect(fetchHtml(`${baseUrl}/guide`, { userAgent: 'TestAgent/1.0' })).resolves.toBe(PAGE);
+        expect(userAgents).toEqual(['TestAgent/1.0']);
+    });
+
+    it('should fail on error statuses', async () => {
+        await expect(fetchHtml(`${baseUrl}/missing`)).rejects.toThrow(`GET ${baseUrl}/missing failed with HTTP 404`);
+    });
+
+    it('should fetch pages through an HTTP proxy', async () => {
+        const proxied: { url?: string; authorization?: string; userAgent?: string }[] = [];
+        const proxy = http.createServer((req, res) => {
+            proxied.push({ url: req.url, authorization: req.headers['proxy-authorization'], userAgent: req.headers['user-agent'] });
+            res.writeHead(200, { 'content-type': 'text/html' });
+            res.end(PAGE);
+        });
+        await new Promise<void>(resolve => proxy.listen(0, '127.0.0.1', resolve));
+        const server = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+
+        try {
+            await expect(fetchHtml('http://guide.example/listing', {
+                userAgent: 'TestAgent/1.0',
+                proxy: { server, username: 'user', password: 'secret' }
+            })).resolves.toBe(PAGE);
+            await expect(fetchHtml(`${baseUrl}/guide`, { proxy: { server, bypass: '127.0.0.1, .example.com' } })).resolves.toBe(PAGE);
+        } finally {
+            await new Promise(resolve => proxy.close(resolve));
+        }
+
+        expect(proxied).toEqual([{
+            url: 'http://guide.example/listing',
+            authorization: `Basic ${Buffer.from('user:secret').toString('base64')}`,
+            userAgent: 'TestAgent/1.0'
+        }]);
+        expect(userAgents).toHaveLength(1);
+    });
+
+    it('should reject SOCKS proxies', async () => {
+        await expect(fetchHtml(`${baseUrl}/guide`, { proxy: { server: 'socks5://127.0.0.1:1080' } }))
+            .rejects.toThrow('Proxy socks5://127.0.0.1:1080 is not supported in http mode, only HTTP(S) proxies are');
+    });
+
+    it('should scrape and record a page without a browser', async () => {
+        const snapshotDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-'));
+        const config = createTableScraper({
+            name: 'Guide',
+            url: `${baseUrl}/guide`,
+            mode: 'http',
+            rowSelector: '#guide tr',
+            skipRows: 1,
+            columns: { number: 'td.number', name: 'td.name' }
+        });
+
+        try {
+            const channels = await runScraper(config, { snapshotMode: 'record', snapshotDir, snapshotName: 'guide' });
+
+            expect(channels.map(({ number, name }) => `${number} ${name}`)).toEqual(['101 BBC ONE', '118 A&E']);
+            expect(fs.readFileSync(path.join(snapshotDir, 'guide.html'), 'utf8')).toBe(PAGE);
+        } finally {
+            fs.rmSync(snapshotDir, { recursive: true, force: true });
+        }
+    });
+
+    it('should require an extract function', async () => {
+        await expect(runScraper({ url: `${baseUrl}/guide`, mode: 'http', scrapeFunction: async () => [] }))
+            .rejects.toThrow(`No extract function for ${baseUrl}/guide`);
+    });
+});
@@ -0,0 +1,85 @@
+import { exportChannels, getExporter, listExporters, registerExporter } from '../utils/exporters';
+
+const lineups = [
+    {
+        provider: 'SKY',
+        channels: [
+            { number: '101', name: 'BBC ONE' },
+            { number: '110', name: 'SKY SPORTS F1 & "MORE", LIVE' }
+        ]
+    },
+    {
+        provider: 'Virgin',
+        channels: [
+            { number: '101', name: 'BBC ONE' }
+        ]
+    }
+];
+
+describe('exportChannels', () => {
+    it('should export a single lineup as a JSON channel array', () => {
+        expect(JSON.parse(exportChannels([lineups[1]], 'json'))).toEqual(lineups[1].channels);
+    });
+
+    it('should export several lineups as JSON provider channels', () => {
+        expect(JSON.parse(exportChannels(lineups))).toEqual(lineups);
+    });
+
+    it('should export an M3U skeleton with channel numbers and names', () => {
+        expect(exportChannels([lineups[0]], 'm3u')).toBe([
+            '#EXTM3U',
+            '#EXTINF:-1 tvg-chno="101" tvg-name="BBC ONE" group-title="SKY",BBC ONE',
+            '',
+            '#EXTINF:-1 tvg-chno="110" tvg-name="SKY SPORTS F1 & \'MORE\', LIVE" group-title="SKY",SKY SPORTS F1 & "MORE", LIVE',
+            ''
+        ].join('\n'));
+    });
+
+    it('should export an XMLTV channel document', () => {
+        expect(exportChannels(lineups, 'xmltv')).toBe([
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<!DOCTYPE tv SYSTEM "xmltv.dtd">',
+            '<tv generator-info-name="scrape-channel-listings">',
+            '  <channel id="bbcone.sky">',
+            '    <display-name>BBC ONE</display-name>',
+            '    <display-name>101</display-name>',
+            '  </channel>',
+            '  <channel id="skysportsf1andmorelive.sky">',
+            '    <display-name>SKY SPORTS F1 &amp; &quot;MORE&quot;, LIVE</display-name>',
+            '    <display-name>110</display-name>',
+            '  </channel>',
+            '  <channel id="bbcone.virgin">',
+            '    <display-name>BBC ONE</display-name>',
+            '    <display-name>101</display-name>',
+            '  </channel>',
+            '</tv>'
+        ].join('\n'));
+    });
+
+    it('should export CSV with quoted fields where needed', () => {
+        expect(exportChannels(lineups, 'CSV')).toBe([
+            'provider,number,name',
+            'SKY,101,BBC ONE',
+            'SKY,110,"SKY SPORTS F1 & ""MORE"", LIVE"',
+            'Virgin,101,BBC ONE'
+        ].join('\n'));
+    });
+
+    it('should throw for unknown formats', () => {
+        expect(() => exportChannels(lineups, 'yaml')).toThrow('Unknown format "yaml", expected one of: json, m3u, xmltv, csv');
+    });
+});
+
+describe('registerExporter', () => {
+    it('should make custom exporters available by name', () => {
+        registerExporter({
+            name: 'tsv',
+            extension: 'tsv',
+            export: (data) => data.flatMap(({ channels }) => channels.map(c => `${c.number}\t${c.name}`)).join('\n')
+        });
+
+        expect(listExporters()).toContain('tsv');
+        expect(getExporter('TSV').extension).toBe('tsv');
+        expect(exportChannels([lineups[1]], 'tsv')).toBe('101\tBBC ONE');
+    });
+});
@@ -0,0 +1,25 @@
+import fs from 'fs';
+import path from 'path';
+import { resolveSettings } from '../utils/config';
+import { readPreviousChannels, readSavedLineup, writeResultsToFiles } from '../utils/fileUtils';
+
+describe('default output directory', () => {
+    const name = 'Default-Dir-Test';
+    const channels = [{ number: '101', name: 'BBC ONE' }];
+    const { outputDir } = resolveSettings();
+
+    afterEach(() => {
+        fs.rmSync(path.join(outputDir, `${name.toLowerCase()}.json`), { force: true });
+    });
+
+    it('should be the data directory at the package root', () => {
+        expect(outputDir).toBe(path.resolve(__dirname, '..', '..', 'data'));
+    });
+
+    it('should read back a lineup written with the default settings', () => {
+        writeResultsToFiles([{ name, success: true, duration: 0, channels }], ['json'], outputDir);
+
+        expect(readPreviousChannels(name)).toEqual(channels);
+        expect(readSavedLineup(name)?.channels).toEqual(channels);
+    });
+});
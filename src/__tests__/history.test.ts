@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { appendHistory, channelNumberHistory, lineupAsOf, readHistory, type HistoryRecord } from '../utils/history';
+
+const record = (provider: string, scrapedAt: string, channels: HistoryRecord['channels'], region?: string): HistoryRecord => ({
+    provider,
+    scrapedAt,
+    ...(region && { region }),
+    channels
+});
+
+describe('lineup history', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+        file = path.join(dir, 'nested', 'history.jsonl');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('appendHistory and readHistory', () => {
+        it('should append one line per record and read them back oldest first', () => {
+            appendHistory(file, record('Virgin', '2026-02-01T06:00:00.000Z', [{ number: '107', name: 'SKY ATLANTIC' }]));
+            appendHistory(file, record('SKY', '2026-01-01T06:00:00.000Z', [{ number: '106', name: 'SKY ATLANTIC' }]));
+
+            expect(fs.readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(2);
+            expect(readHistory(file).map(entry => entry.provider)).toEqual(['SKY', 'Virgin']);
+            expect(readHistory(file, 'virgin').map(entry => entry.scrapedAt)).toEqual(['2026-02-01T06:00:00.000Z']);
+        });
+
+        it('should fail when the file does not exist', () => {
+            expect(() => readHistory(file)).toThrow(`History file ${file} not found`);
+        });
+
+        it('should name the line of an invalid record', () => {
+            appendHistory(file, record('SKY', '2026-01-01T06:00:00.000Z', []));
+            fs.appendFileSync(file, '\n{"provider":"SKY"\n');
+
+            expect(() => readHistory(file)).toThrow(`Invalid history record on line 3 of ${file}`);
+        });
+    });
+
+    describe('lineupAsOf', () => {
+        beforeEach(() => {
+            appendHistory(file, record('Virgin', '2026-03-01T06:00:00.000Z', [{ number: '107', name: 'SKY ATLANTIC' }]));
+            appendHistory(file, record('Virgin', '2026-03-15T06:00:00.000Z', [{ number: '108', name: 'SKY ATLANTIC' }]));
+            appendHistory(file, record('Virgin', '2026-03-10T06:00:00.000Z', [{ number: '101', name: 'BBC ONE WALES' }], 'Wales'));
+            appendHistory(file, record('Virgin', '2026-04-01T06:00:00.000Z', [{ number: '109', name: 'SKY ATLANTIC' }]));
+        });
+
+        it('should return the last lineup scraped at or before the time', () => {
+            expect(lineupAsOf(file, 'VIRGIN', '2026-03-20T00:00:00Z')?.channels).toEqual([{ number: '108', name: 'SKY ATLANTIC' }]);
+            expect(lineupAsOf(file, 'Virgin', new Date('2026-03-15T06:00:00.000Z'))?.scrapedAt).toBe('2026-03-15T06:00:00.000Z');
+        });
+
+        it('should read a date without a time as the end of that day', () => {
+            expect(lineupAsOf(file, 'Virgin', '2026-03-15')?.scrapedAt).toBe('2026-03-15T06:00:00.000Z');
+            expect(lineupAsOf(file, 'Virgin', '2026-03-14')?.scrapedAt).toBe('2026-03-01T06:00:00.000Z');
+        });
+
+        it('should keep regional lineups apart from the national ones', () => {
+            expect(lineupAsOf(file, 'Virgin', '2026-03-31', 'wales')?.channels).toEqual([{ number: '101', name: 'BBC ONE WALES' }]);
+            expect(lineupAsOf(file, 'Virgin', '2026-03-12')?.scrapedAt).toBe('2026-03-01T06:00:00.000Z');
+        });
+
+        it('should return undefined before the first scrape', () => {
+            expect(lineupAsOf(file, 'Virgin', '2026-02-28')).toBeUndefined();
+            expect(lineupAsOf(file, 'DISH', '2026-03-31')).toBeUndefined();
+        });
+
+        it('should reject invalid dates', () => {
+            expect(() => lineupAsOf(file, 'Virgin', 'last March')).toThrow('Invalid date "last March"');
+        });
+    });
+
+    describe('channelNumberHistory', () => {
+        beforeEach(() => {
+            appendHistory(file, record('Virgin', '2026-01-01T06:00:00.000Z', [{ number: '107', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic' }]));
+            appendHistory(file, record('SKY', '2026-01-01T06:00:00.000Z', [{ number: '106', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic' }]));
+            appendHistory(file, record('Virgin', '2026-02-01T06:00:00.000Z', [{ number: '107', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic' }]));
+            appendHistory(file, record('Virgin', '2026-03-01T06:00:00.000Z', [{ number: '108', name: 'SKY ATLANTIC HD', canonicalId: 'sky-atlantic' }]));
+            appendHistory(file, record('Virgin', '2026-04-01T06:00:00.000Z', [{ number: '101', name: 'BBC ONE' }]));
+            appendHistory(file, record('Virgin', '2026-05-01T06:00:00.000Z', [{ number: '107', name: 'SKY ATLANTIC' }]));
+        });
+
+        it('should list the numbers a channel was listed under, per provider', () => {
+            expect(channelNumberHistory(file, 'Sky Atlantic')).toEqual([
+                { provider: 'SKY', number: '106', name: 'SKY ATLANTIC', from: '2026-01-01T06:00:00.000Z', to: '2026-01-01T06:00:00.000Z' },
+                { provider: 'Virgin', number: '107', name: 'SKY ATLANTIC', from: '2026-01-01T06:00:00.000Z', to: '2026-02-01T06:00:00.000Z' },
+                { provider: 'Virgin', number: '108', name: 'SKY ATLANTIC HD', from: '2026-03-01T06:00:00.000Z', to: '2026-03-01T06:00:00.000Z' },
+                { provider: 'Virgin', number: '107', name: 'SKY ATLANTIC', from: '2026-05-01T06:00:00.000Z', to: '2026-05-01T06:00:00.000Z' }
+            ]);
+        });
+
+        it('should only search the given provider', () => {
+            expect(channelNumberHistory(file, 'SKY ATLANTIC', { provider: 'sky' }).map(span => span.number)).toEqual(['106']);
+        });
+
+        it('should match uncatalogued channels by normalized name', () => {
+            expect(channelNumberHistory(file, 'bbc one.')).toEqual([
+                { provider: 'Virgin', number: '101', name: 'BBC ONE', from: '2026-04-01T06:00:00.000Z', to: '2026-04-01T06:00:00.000Z' }
+            ]);
+            expect(channelNumberHistory(file, 'Not A Channel')).toEqual([]);
+        });
+    });
+});
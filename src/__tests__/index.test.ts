@@ -1,5 +1,21 @@
-import { scrapeAllProviders, scrapeProvider } from '../index';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    scrapeAllProviders,
+    scrapeProvider,
+    registerProvider,
+    unregisterProvider,
+    getProvider,
+    listProviders,
+    loadProviderModules,
+    ScrapeCancelledError,
+    ScrapeTimeoutError
+} from '../index';
 import { runScraper } from '../utils/scraper';
+import { readCache, writeCache } from '../utils/cache';
+import type { ScrapeEvent } from '../utils/events';
+import type { Logger } from '../utils/logger';
 
 // Mock the scraper utility
 jest.mock('../utils/scraper', () => ({
@@ -11,7 +27,7 @@ describe('scrapeAllProviders', () => {
         jest.clearAllMocks();
     });
 
-    it('should scrape all providers and return provider channels', async () => {
+    it('should scrape all providers and return a summary', async () => {
         const mockChannels = [
             { number: '1', name: 'Channel 1' },
             { number: '2', name: 'Channel 2' }
@@ -21,24 +37,7 @@ describe('scrapeAllProviders', () => {
 
         const result = await scrapeAllProviders();
 
-        expect(result).toEqual([
-            { provider: 'DIRECTV', channels: mockChannels },
-            { provider: 'DISH', channels: mockChannels },
-            { provider: 'SKY', channels: mockChannels },
-            { provider: 'Virgin', channels: mockChannels }
-        ]);
         expect(runScraper).toHaveBeenCalledTimes(4);
-    });
-
-    it('should return summary when writeFiles is true', async () => {
-        const mockChannels = [
-            { number: '1', name: 'Channel 1' },
-            { number: '2', name: 'Channel 2' }
-        ];
-
-        (runScraper as jest.Mock).mockResolvedValue(mockChannels);
-
-        const result = await scrapeAllProviders({ writeFiles: true });
 
         expect(result).toMatchObject({
             results: expect.arrayContaining([
@@ -53,10 +52,23 @@ describe('scrapeAllProviders', () => {
             totalDuration: expect.any(Number),
             successRate: expect.any(String),
             totalChannels: 8,
-            failedScrapers: []
+            failedScrapers: [],
+            timings: expect.arrayContaining([
+                expect.objectContaining({ name: 'DIRECTV', duration: expect.any(Number), queued: expect.any(Number) })
+            ])
         });
     });
 
+    it('should run every provider in the same browser pool', async () => {
+        (runScraper as jest.Mock).mockResolvedValue([{ number: '1', name: 'Channel 1' }]);
+
+        await scrapeAllProviders({ maxConcurrent: 2 });
+
+        const pools = (runScraper as jest.Mock).mock.calls.map(([, options]) => options.browserPool);
+        expect(pools[0]).toBeDefined();
+        pools.forEach(pool => expect(pool).toBe(pools[0]));
+    });
+
     it('should handle failed scrapers', async () => {
         (runScraper as jest.Mock)
             .mockResolvedValueOnce([{ number: '1', name: 'Channel 1' }])
@@ -64,7 +76,7 @@ describe('scrapeAllProviders', () => {
             .mockResolvedValueOnce([{ number: '2', name: 'Channel 2' }])
             .mockResolvedValueOnce([{ number: '3', name: 'Channel 3' }]);
 
-        const result = await scrapeAllProviders({ writeFiles: true });
+        const result = await scrapeAllProviders();
 
         expect(result).toMatchObject({
             results: expect.arrayContaining([
@@ -85,6 +97,55 @@ describe('scrapeAllProviders', () => {
             ])
         });
     });
+
+    it('should report every provider with serialisable errors', async () => {
+        (runScraper as jest.Mock)
+            .mockImplementationOnce(async (_config, options) => {
+                options.onProgress({ type: 'navigated', url: 'https://example.com', replay: false });
+                options.onProgress({ type: 'retry-scheduled', attempt: 1, delay: 0, error: 'Timeout' });
+                return [{ number: '1', name: 'Channel 1' }];
+            })
+            .mockRejectedValueOnce(new Error('Failed'))
+            .mockResolvedValue([]);
+
+        const { report } = await scrapeAllProviders();
+        const serialised = JSON.parse(JSON.stringify(report));
+
+        expect(serialised).toMatchObject({
+            version: expect.any(String),
+            startedAt: expect.any(String),
+            successRate: '25.0%',
+            totalChannels: 1
+        });
+        expect(serialised.providers).toEqual([
+            expect.objectContaining({ provider: 'DIRECTV', success: true, attempts: 2, channelCount: 1, url: expect.stringMatching(/^https:/) }),
+            expect.objectContaining({ provider: 'DISH', success: false, attempts: 0, error: { name: 'Error', message: 'Failed' } }),
+            expect.objectContaining({
+                provider: 'SKY',
+                success: false,
+                error: expect.objectContaining({ name: 'ValidationError', rule: 'minChannels', severity: 'error' })
+            }),
+            expect.objectContaining({ provider: 'Virgin', success: false })
+        ]);
+        serialised.providers.forEach((entry: { scrapedAt: string; version: string }) => {
+            expect(Date.parse(entry.scrapedAt)).not.toBeNaN();
+            expect(entry.version).toBe(report.version);
+        });
+    });
+
+    it('should write lineups and a manifest with writeFiles', async () => {
+        const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'output-'));
+        (runScraper as jest.Mock).mockResolvedValue([{ number: '1', name: 'Channel 1' }]);
+
+        try {
+            const { report } = await scrapeAllProviders({ writeFiles: true, config: { outputDir } });
+
+            expect(fs.readdirSync(outputDir).sort()).toEqual(['directv.json', 'dish.json', 'manifest.json', 'sky.json', 'virgin.json']);
+            expect(JSON.parse(fs.readFileSync(path.join(outputDir, 'manifest.json'), 'utf8'))).toEqual(report);
+        } finally {
+            fs.rmSync(outputDir, { recursive: true, force: true });
+        }
+    });
 });
 
 describe('scrapeProvider', () => {
@@ -105,9 +166,15 @@ describe('scrapeProvider', () => {
         expect(result).toEqual({
             name: 'DIRECTV',
             success: true,
+            status: 'succeeded',
             duration: expect.any(Number),
             channelCount: 2,
-            channels: mockChannels
+            channels: mockChannels,
+            unmatchedChannels: ['Channel 1', 'Channel 2'],
+            url: expect.any(String),
+            scrapedAt: expect.any(String),
+            attempts: 0,
+            source: 'https://www.usdirect.com/channels'
         });
         expect(runScraper).toHaveBeenCalledTimes(1);
     });
@@ -120,13 +187,534 @@ describe('scrapeProvider', () => {
         expect(result).toEqual({
             name: 'DIRECTV',
             success: false,
+            status: 'failed',
             duration: expect.any(Number),
-            error: expect.any(Error)
+            error: expect.any(Error),
+            url: expect.any(String),
+            scrapedAt: expect.any(String),
+            attempts: 0,
+            source: 'https://www.usdirect.com/channels'
+        });
+    });
+
+    it('should match provider names case-insensitively', async () => {
+        (runScraper as jest.Mock).mockResolvedValue([]);
+
+        const result = await scrapeProvider('virgin');
+
+        expect(result.name).toBe('Virgin');
+        expect(runScraper).toHaveBeenCalledWith(getProvider('VIRGIN')?.config, expect.objectContaining({ snapshotName: 'virgin' }));
+    });
+
+    it('should fail when the lineup fails validation', async () => {
+        (runScraper as jest.Mock).mockResolvedValue([]);
+
+        const result = await scrapeProvider('DIRECTV');
+
+        expect(result).toMatchObject({
+            name: 'DIRECTV',
+            success: false,
+            error: expect.objectContaining({ name: 'ValidationError', rule: 'minChannels' }),
+            validationErrors: [expect.objectContaining({ rule: 'minChannels', severity: 'error' })]
+        });
+    });
+
+    it('should warn when the lineup changed too much since the previous run', async () => {
+        (runScraper as jest.Mock).mockResolvedValue([{ number: '1', name: 'Channel 1' }]);
+
+        const result = await scrapeProvider('DIRECTV', {
+            previousLineups: [{ provider: 'DIRECTV', channels: [{ number: '9', name: 'Channel 9' }] }]
+        });
+
+        expect(result).toMatchObject({
+            success: true,
+            warned: true,
+            validationErrors: [expect.objectContaining({ rule: 'maxChangePercent', severity: 'warning' })]
         });
     });
 
+    it('should select the requested region and split regional lineups', async () => {
+        (runScraper as jest.Mock).mockResolvedValue([
+            { number: '101', name: 'BBC ONE' },
+            { number: '101', name: 'BBC ONE WALES', region: 'Wales' },
+            { number: '102', name: 'BBC TWO' }
+        ]);
+
+        const result = await scrapeProvider('Virgin', { region: 'wales', splitRegions: true });
+
+        expect(runScraper).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ region: 'Wales', includeAllRegions: true }));
+        expect(result.channels?.map(c => c.name)).toEqual(['BBC ONE WALES', 'BBC TWO']);
+        expect(result.regions?.England.map(c => c.name)).toEqual(['BBC ONE', 'BBC TWO']);
+        expect(Object.keys(result.regions || {})).toEqual(['England', 'Wales', 'Scotland', 'Northern Ireland']);
+    });
+
+    it('should fail for regions the provider does not support', async () => {
+        const result = await scrapeProvider('SKY', { region: 'Cornwall' });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('Provider "SKY" does not support region "Cornwall", expected one of: England, Wales, Scotland, Northern Ireland');
+        expect(runScraper).not.toHaveBeenCalled();
+    });
+
+    it('should pass global and per-provider settings from the config', async () => {
+        (runScraper as jest.Mock).mockResolvedValue([]);
+        const config = { retry: { attempts: 2 }, providers: { virgin: { retry: { delay: 50 } } } };
+
+        await scrapeProvider('Virgin', { config });
+
+        expect(runScraper).toHaveBeenCalledWith(
+            expect.objectContaining({ settings: { retry: { delay: 50 } } }),
+            expect.objectContaining({ settings: config })
+        );
+    });
+
+    it('should reject an invalid config', async () => {
+        await expect(scrapeProvider('SKY', { config: { headless: 'yes' } as any }))
+            .rejects.toThrow('Invalid configuration in options.config:\n  - headless must be a boolean');
+        expect(runScraper).not.toHaveBeenCalled();
+    });
+
     it('should throw error for unknown provider', async () => {
         await expect(scrapeProvider('UNKNOWN')).rejects.toThrow('Provider "UNKNOWN" not found');
         expect(runScraper).not.toHaveBeenCalled();
     });
-}); 
\ No newline at end of file
+}); 
+describe('provider registry', () => {
+    const customConfig = {
+        url: 'https://example.com/channels',
+        scrapeFunction: async () => []
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    afterEach(() => {
+        unregisterProvider('Custom');
+    });
+
+    it('should list the built-in providers', () => {
+        expect(listProviders().map(p => p.name)).toEqual(['DIRECTV', 'DISH', 'SKY', 'Virgin']);
+    });
+
+    it('should register and unregister providers', () => {
+        registerProvider('Custom', customConfig);
+
+        expect(getProvider('custom')).toEqual({ name: 'Custom', config: customConfig });
+        expect(unregisterProvider('CUSTOM')).toBe(true);
+        expect(getProvider('Custom')).toBeUndefined();
+    });
+
+    it('should reject duplicate names unless replace is set', () => {
+        registerProvider('Custom', customConfig);
+
+        expect(() => registerProvider('custom', customConfig)).toThrow('Provider "Custom" is already registered');
+        expect(() => registerProvider('custom', customConfig, { replace: true })).not.toThrow();
+    });
+
+    it('should warn about override keys that can never match', () => {
+        const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        registerProvider('Custom', {
+            ...customConfig,
+            overrides: { 'RTÉjr': 'RTE Junior', 'DISC SCIENCE': 'Discovery Science' },
+            sources: [{ url: 'https://example.com/mirror', scrapeFunction: async () => [], overrides: { 'Nick': 'Nickelodeon' } }]
+        }, { logger });
+
+        expect((logger.warn as jest.Mock).mock.calls.map(([message]) => message)).toEqual([
+            'Provider "Custom" override "RTÉjr" can never match, names normalize to "RTEJR"',
+            'Provider "Custom" override "Nick" can never match, names normalize to "NICK"'
+        ]);
+    });
+
+    it('should check override keys against the provider\'s normalization', () => {
+        const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        registerProvider('Custom', { ...customConfig, normalization: ['whitespace'], overrides: { 'Nick Jr': 'Nick Jr.' } }, { logger });
+
+        expect(logger.warn).not.toHaveBeenCalled();
+        expect(() => registerProvider('Custom', { ...customConfig, normalization: ['lowercase' as any] }, { replace: true }))
+            .toThrow('Unknown normalization step "lowercase"');
+    });
+
+    it('should include registered providers in scrapeAllProviders', async () => {
+        (runScraper as jest.Mock).mockResolvedValue([]);
+        registerProvider('Custom', customConfig);
+
+        const result = await scrapeAllProviders();
+
+        expect(result.results).toContainEqual(expect.objectContaining({ name: 'Custom', success: true, channels: [] }));
+        expect(runScraper).toHaveBeenCalledTimes(5);
+    });
+
+    it('should load providers from an external module', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'providers-'));
+        fs.writeFileSync(
+            path.join(dir, 'custom.js'),
+            "module.exports = { Custom: { url: 'https://example.com', scrapeFunction: async () => [] } };"
+        );
+
+        try {
+            await expect(loadProviderModules(dir)).resolves.toEqual(['Custom']);
+            expect(getProvider('custom')?.config.url).toBe('https://example.com');
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('result cache', () => {
+    const lineup = [{ number: '101', name: 'BBC ONE' }, { number: '102', name: 'BBC TWO' }];
+    let dir: string;
+    let config: { cache: { ttl: number; staleWhileRevalidate?: number; dir: string } };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+        config = { cache: { ttl: 60000, dir } };
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should not cache unless a ttl or maxAge is given', async () => {
+        (runScraper as jest.Mock).mockResolvedValue(lineup);
+
+        await scrapeProvider('SKY', { config: { cache: { dir } } });
+
+        expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it('should cache lineups and serve them while fresh', async () => {
+        (runScraper as jest.Mock).mockResolvedValue(lineup);
+
+        const live = await scrapeProvider('SKY', { config });
+        const cached = await scrapeProvider('SKY', { config });
+
+        expect(live.fromCache).toBeUndefined();
+        expect(cached).toMatchObject({ success: true, fromCache: true, channels: lineup });
+        expect(cached.cachedAt).toBe(readCache(dir, 'SKY')?.cachedAt);
+        expect(runScraper).toHaveBeenCalledTimes(1);
+    });
+
+    it('should scrape when the cache is older than maxAge or forced', async () => {
+        (runScraper as jest.Mock).mockResolvedValue(lineup);
+        writeCache(dir, 'SKY', lineup, new Date(Date.now() - 5000));
+
+        await expect(scrapeProvider('SKY', { config, maxAge: 1000 })).resolves.not.toHaveProperty('fromCache');
+        await expect(scrapeProvider('SKY', { config, force: true })).resolves.not.toHaveProperty('fromCache');
+        expect(runScraper).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to the cached lineup when the scrape fails', async () => {
+        writeCache(dir, 'SKY', lineup, new Date(Date.now() - 120000));
+        (runScraper as jest.Mock).mockRejectedValue(new Error('Timeout'));
+
+        const result = await scrapeProvider('SKY', { config });
+
+        expect(result).toMatchObject({
+            success: true,
+            fromCache: true,
+            stale: true,
+            warned: true,
+            channels: lineup,
+            error: expect.objectContaining({ message: 'Timeout' })
+        });
+    });
+
+    it('should fall back to the cached lineup when the scrape fails validation', async () => {
+        writeCache(dir, 'SKY', lineup, new Date(Date.now() - 120000));
+        (runScraper as jest.Mock).mockResolvedValue([]);
+
+        const result = await scrapeProvider('SKY', { config });
+
+        expect(result).toMatchObject({ success: true, fromCache: true, channels: lineup });
+        expect(result.validationErrors).toEqual([expect.objectContaining({ rule: 'minChannels' })]);
+        expect(readCache(dir, 'SKY')?.channels).toEqual(lineup);
+    });
+
+    it('should serve stale lineups while refreshing them in the background', async () => {
+        const refreshed = [...lineup, { number: '103', name: 'ITV1' }];
+        writeCache(dir, 'SKY', lineup, new Date(Date.now() - 90000));
+        (runScraper as jest.Mock).mockResolvedValue(refreshed);
+
+        const result = await scrapeProvider('SKY', { config: { cache: { ...config.cache, staleWhileRevalidate: 60000 } } });
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(result).toMatchObject({ fromCache: true, stale: true, channels: lineup });
+        expect(runScraper).toHaveBeenCalledTimes(1);
+        expect(readCache(dir, 'SKY')?.channels).toEqual(refreshed);
+    });
+});
+
+describe('progress events', () => {
+    const silent: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should report the progress of a provider run', async () => {
+        (runScraper as jest.Mock).mockImplementation(async (_config, options) => {
+            options.onProgress({ type: 'navigated', url: 'https://example.com', replay: false });
+            options.onProgress({ type: 'rows-extracted', rows: 1, channels: 1 });
+            return [{ number: '101', name: 'BBC ONE' }];
+        });
+        const events: ScrapeEvent[] = [];
+
+        await scrapeProvider('DIRECTV', { onEvent: event => events.push(event), logger: silent });
+
+        expect(events.map(event => event.type)).toEqual(['started', 'navigated', 'rows-extracted', 'finished']);
+        expect(events[0]).toMatchObject({ provider: 'DIRECTV', timestamp: expect.any(Number), url: expect.any(String) });
+        expect(events[3]).toMatchObject({ channelCount: 1, fromCache: false, warned: false });
+        expect(silent.info).toHaveBeenCalledWith(expect.stringContaining('DIRECTV: finished with 1 channels'), expect.objectContaining({ event: 'finished' }));
+    });
+
+    it('should report failed runs and survive a throwing listener', async () => {
+        (runScraper as jest.Mock).mockRejectedValue(new Error('Timeout'));
+        const events: ScrapeEvent[] = [];
+
+        const result = await scrapeProvider('SKY', {
+            onEvent: event => {
+                events.push(event);
+                throw new Error('listener bug');
+            },
+            logger: silent
+        });
+
+        expect(result.success).toBe(false);
+        expect(events.map(event => event.type)).toEqual(['started', 'failed']);
+        expect(events[1]).toMatchObject({ error: 'Timeout' });
+        expect(silent.error).toHaveBeenCalledWith('Event listener failed: listener bug', { provider: 'SKY' });
+    });
+
+    it('should report every provider in scrapeAllProviders', async () => {
+        (runScraper as jest.Mock).mockResolvedValue([{ number: '1', name: 'Channel 1' }]);
+        const ended: string[] = [];
+
+        await scrapeAllProviders({
+            onEvent: event => (event.type === 'finished' || event.type === 'failed') && ended.push(event.provider),
+            logger: silent
+        });
+
+        expect(ended.sort()).toEqual(['DIRECTV', 'DISH', 'SKY', 'Virgin']);
+    });
+});
+
+describe('cancellation', () => {
+    const silent: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    // A page that never loads, ending only when the run's signal is aborted
+    const hang = (_config: unknown, options: { signal?: AbortSignal }) => new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('Target page, context or browser has been closed')));
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should report providers past their deadline as timed out', async () => {
+        (runScraper as jest.Mock).mockImplementation(hang);
+        const events: ScrapeEvent[] = [];
+
+        const result = await scrapeProvider('SKY', { providerTimeout: 50, onEvent: event => events.push(event), logger: silent });
+
+        expect(result).toMatchObject({ success: false, status: 'timed-out', error: new ScrapeTimeoutError(50, 'SKY scrape timed out after 50ms') });
+        expect(result.error).toBeInstanceOf(ScrapeTimeoutError);
+        expect(events[events.length - 1]).toMatchObject({ type: 'failed', status: 'timed-out' });
+        expect(silent.warn).toHaveBeenCalledWith(expect.stringContaining('SKY: timed out after'), expect.objectContaining({ status: 'timed-out' }));
+    });
+
+    it('should not wait for scrapers that ignore the signal', async () => {
+        (runScraper as jest.Mock).mockReturnValue(new Promise(() => undefined));
+
+        const result = await scrapeProvider('SKY', { providerTimeout: 50, logger: silent });
+
+        expect(result.status).toBe('timed-out');
+    });
+
+    it('should cancel running and queued providers when the signal is aborted', async () => {
+        (runScraper as jest.Mock).mockImplementation(hang);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+
+        const summary = await scrapeAllProviders({ signal: controller.signal, maxConcurrent: 2, logger: silent });
+
+        expect(runScraper).toHaveBeenCalledTimes(2);
+        expect(summary.results.map(result => result.status)).toEqual(['cancelled', 'cancelled', 'cancelled', 'cancelled']);
+        expect(summary.cancelledScrapers).toHaveLength(4);
+        expect(summary.failedScrapers).toHaveLength(4);
+        expect(summary.results[0].error).toBeInstanceOf(ScrapeCancelledError);
+        expect(summary.report.providers.map(provider => provider.status)).toEqual(['cancelled', 'cancelled', 'cancelled', 'cancelled']);
+    });
+
+    it('should stop the run at its deadline', async () => {
+        (runScraper as jest.Mock)
+            .mockResolvedValueOnce([{ number: '1', name: 'Channel 1' }])
+            .mockImplementation(hang);
+
+        const summary = await scrapeAllProviders({ timeout: 100, maxConcurrent: 1, logger: silent });
+
+        expect(summary.results.map(result => result.status)).toEqual(['succeeded', 'timed-out', 'timed-out', 'timed-out']);
+        expect(summary.timedOutScrapers.map(result => result.error?.message)).toEqual([
+            'Scrape run timed out after 100ms',
+            'Scrape run timed out after 100ms',
+            'Scrape run timed out after 100ms'
+        ]);
+    });
+
+    it('should not try the next source once cancelled', async () => {
+        (runScraper as jest.Mock).mockImplementation(hang);
+        registerProvider('Cancelled', {
+            url: 'https://example.com/primary',
+            sources: [{ url: 'https://example.com/backup', scrapeFunction: async () => [] }],
+            scrapeFunction: async () => []
+        });
+
+        try {
+            const result = await scrapeProvider('Cancelled', { providerTimeout: 50, logger: silent });
+
+            expect(runScraper).toHaveBeenCalledTimes(1);
+            expect(result.status).toBe('timed-out');
+        } finally {
+            unregisterProvider('Cancelled');
+        }
+    });
+});
+
+describe('source failover', () => {
+    const fallback = { number: '2', name: 'Fallback' };
+    const sourceConfig = {
+        url: 'https://example.com/primary',
+        scrapeFunction: jest.fn(),
+        validation: { minChannels: 1 },
+        sources: [
+            { url: 'https://example.com/mirror', scrapeFunction: jest.fn() },
+            { url: 'https://example.com/backup', scrapeFunction: jest.fn() }
+        ]
+    };
+    const silent = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        registerProvider('Mirrored', sourceConfig);
+    });
+
+    afterEach(() => {
+        unregisterProvider('Mirrored');
+    });
+
+    it('should fall back to the next source on navigation errors and validation failures', async () => {
+        (runScraper as jest.Mock)
+            .mockRejectedValueOnce(new Error('net::ERR_NAME_NOT_RESOLVED'))
+            .mockResolvedValueOnce([])
+            .mockResolvedValueOnce([fallback]);
+        const events: string[] = [];
+
+        const result = await scrapeProvider('Mirrored', { logger: silent, onEvent: event => events.push(event.type) });
+
+        expect(result).toMatchObject({ success: true, channels: [fallback], source: 'https://example.com/backup' });
+        expect(result.failedSources).toEqual([
+            { url: 'https://example.com/primary', error: expect.objectContaining({ message: 'net::ERR_NAME_NOT_RESOLVED' }) },
+            { url: 'https://example.com/mirror', error: expect.objectContaining({ rule: 'minChannels' }) }
+        ]);
+        expect((runScraper as jest.Mock).mock.calls.map(([config, options]) => [config.url, options.snapshotName]))
+            .toEqual([['https://example.com/primary', 'mirrored'], ['https://example.com/mirror', 'mirrored-2'], ['https://example.com/backup', 'mirrored-3']]);
+        expect(events.filter(type => type === 'source-failed')).toHaveLength(2);
+    });
+
+    it('should not try other sources once one succeeds', async () => {
+        (runScraper as jest.Mock).mockResolvedValue([fallback]);
+
+        const result = await scrapeProvider('Mirrored', { logger: silent });
+
+        expect(result).toMatchObject({ success: true, source: 'https://example.com/primary' });
+        expect(result).not.toHaveProperty('failedSources');
+        expect(runScraper).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the last failure when every source fails', async () => {
+        (runScraper as jest.Mock).mockRejectedValue(new Error('Timeout'));
+
+        const result = await scrapeProvider('Mirrored', { logger: silent });
+
+        expect(result).toMatchObject({ success: false, source: 'https://example.com/backup', error: expect.objectContaining({ message: 'Timeout' }) });
+        expect(result.failedSources).toHaveLength(2);
+    });
+
+    it('should keep the diagnostics each source saved', async () => {
+        const bundle = (dir: string) => ({ dir, reason: 'Timeout', error: `${dir}/error.txt` });
+        (runScraper as jest.Mock).mockImplementation(async (config, options) => {
+            options.onProgress({ type: 'diagnostics-saved', url: config.url, diagnostics: bundle(`/diagnostics/${options.snapshotName}`) });
+            throw new Error('Timeout');
+        });
+        const events: ScrapeEvent[] = [];
+
+        const result = await scrapeProvider('Mirrored', { logger: silent, onEvent: event => events.push(event) });
+
+        expect(result.diagnostics).toEqual(bundle('/diagnostics/mirrored-3'));
+        expect(result.failedSources?.map(failure => failure.diagnostics))
+            .toEqual([bundle('/diagnostics/mirrored'), bundle('/diagnostics/mirrored-2')]);
+        expect(events.filter(event => event.type === 'diagnostics-saved')).toHaveLength(3);
+    });
+
+    it('should reject providers and sources without an extraction for their mode', () => {
+        expect(() => registerProvider('Broken', { ...sourceConfig, sources: [{ url: 'https://example.com' }] } as any))
+            .toThrow('Provider "Broken" sources must each have a url and an extract function, or a scrapeFunction in browser mode');
+        expect(() => registerProvider('Broken', { url: 'https://example.com', mode: 'http', scrapeFunction: jest.fn() }))
+            .toThrow('Provider "Broken" must have an extract function for http mode');
+    });
+});
+
+describe('lineup history', () => {
+    const lineup = [{ number: '101', name: 'BBC ONE' }, { number: '107', name: 'SKY ATLANTIC' }];
+    const silent: Logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    let dir: string;
+    let historyFile: string;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+        historyFile = path.join(dir, 'history.jsonl');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const readRecords = () => fs.readFileSync(historyFile, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+    it('should append every successful scrape to the history file', async () => {
+        (runScraper as jest.Mock).mockResolvedValue(lineup);
+
+        const result = await scrapeProvider('Virgin', { config: { historyFile }, logger: silent });
+        await scrapeProvider('Virgin', { config: { historyFile }, region: 'wales', logger: silent });
+
+        expect(readRecords()).toEqual([
+            { provider: 'Virgin', scrapedAt: result.scrapedAt, source: result.source, channels: lineup },
+            { provider: 'Virgin', scrapedAt: expect.any(String), source: result.source, region: 'Wales', channels: lineup }
+        ]);
+    });
+
+    it('should not record failed scrapes, cached lineups or runs without a history file', async () => {
+        (runScraper as jest.Mock).mockRejectedValueOnce(new Error('Timeout')).mockResolvedValue(lineup);
+        const config = { historyFile, cache: { ttl: 60000, dir: path.join(dir, 'cache') } };
+
+        await scrapeProvider('Virgin', { config, logger: silent });
+        await scrapeProvider('Virgin', { config, logger: silent });
+        await scrapeProvider('Virgin', { config, logger: silent });
+        await scrapeProvider('DISH', { logger: silent });
+
+        expect(readRecords().map(record => record.provider)).toEqual(['Virgin']);
+        expect(runScraper).toHaveBeenCalledTimes(3);
+    });
+
+    it('should log a failed write without failing the scrape', async () => {
+        (runScraper as jest.Mock).mockResolvedValue(lineup);
+        fs.mkdirSync(historyFile);
+
+        const result = await scrapeProvider('Virgin', { config: { historyFile }, logger: silent });
+
+        expect(result.success).toBe(true);
+        expect(silent.error).toHaveBeenCalledWith(expect.stringContaining('Virgin: could not record history'), { provider: 'Virgin' });
+    });
+});
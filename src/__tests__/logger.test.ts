@@ -0,0 +1,86 @@
+import { createLogger, defaultLogger } from '../utils/logger';
+import { logScrapeEvent } from '../utils/events';
+
+const capture = () => {
+    const lines: string[] = [];
+    return { lines, stream: { write: (chunk: string) => lines.push(chunk) } };
+};
+
+describe('createLogger', () => {
+    it('should write messages at or above the level as text', () => {
+        const { lines, stream } = capture();
+        const logger = createLogger({ level: 'warn', stream });
+
+        logger.debug('hidden');
+        logger.info('hidden');
+        logger.warn('careful');
+        logger.error('broken', { provider: 'SKY' });
+
+        expect(lines).toEqual(['[warn] careful\n', '[error] broken\n']);
+    });
+
+    it('should write NDJSON with the fields', () => {
+        const { lines, stream } = capture();
+        createLogger({ format: 'ndjson', stream }).info('done', { provider: 'SKY', channels: 3 });
+
+        expect(lines).toHaveLength(1);
+        expect(JSON.parse(lines[0])).toEqual({
+            time: expect.any(String),
+            level: 'info',
+            message: 'done',
+            provider: 'SKY',
+            channels: 3
+        });
+    });
+
+    it('should write nothing when silent', () => {
+        const { lines, stream } = capture();
+        const logger = createLogger({ level: 'silent', stream });
+
+        logger.error('broken');
+
+        expect(lines).toEqual([]);
+    });
+});
+
+describe('defaultLogger', () => {
+    it('should keep the library silent on stderr', () => {
+        const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+        defaultLogger.warn('careful');
+        defaultLogger.error('broken');
+
+        expect(write).not.toHaveBeenCalled();
+        write.mockRestore();
+    });
+});
+
+describe('logScrapeEvent', () => {
+    it('should log events at a level matching their importance', () => {
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const base = { provider: 'SKY', timestamp: 0 };
+
+        logScrapeEvent(logger, { ...base, type: 'navigated', url: 'https://example.com', replay: true });
+        logScrapeEvent(logger, { ...base, type: 'retry-scheduled', attempt: 1, delay: 1000, error: 'Timeout' });
+        logScrapeEvent(logger, { ...base, type: 'failed', duration: 2500, error: 'Timeout', status: 'failed' });
+        logScrapeEvent(logger, { ...base, type: 'failed', duration: 5000, error: 'SKY scrape timed out after 5000ms', status: 'timed-out' });
+
+        expect(logger.debug).toHaveBeenCalledWith('SKY: snapshot loaded', { event: 'navigated', provider: 'SKY', url: 'https://example.com', replay: true });
+        expect(logger.warn).toHaveBeenCalledWith('SKY: attempt 1 failed (Timeout), retrying in 1000ms', expect.objectContaining({ event: 'retry-scheduled', attempt: 1 }));
+        expect(logger.error).toHaveBeenCalledWith('SKY: failed after 2.5s: Timeout', expect.objectContaining({ event: 'failed' }));
+        expect(logger.warn).toHaveBeenCalledWith('SKY: timed out after 5.0s: SKY scrape timed out after 5000ms', expect.objectContaining({ status: 'timed-out' }));
+        expect(logger.info).not.toHaveBeenCalled();
+    });
+
+    it('should log where diagnostics were saved', () => {
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const diagnostics = { dir: '/diagnostics/sky', reason: 'Timeout', error: '/diagnostics/sky/error.txt' };
+
+        logScrapeEvent(logger, { provider: 'SKY', timestamp: 0, type: 'diagnostics-saved', url: 'https://example.com', diagnostics });
+
+        expect(logger.info).toHaveBeenCalledWith(
+            'SKY: diagnostics of https://example.com saved to /diagnostics/sky',
+            { event: 'diagnostics-saved', provider: 'SKY', url: 'https://example.com', diagnostics }
+        );
+    });
+});
@@ -0,0 +1,117 @@
+import {
+    createNormalizer,
+    findUnreachableOverrides,
+    normalizeChannelName,
+    NORMALIZATION_STEPS
+} from '../utils/normalize';
+
+describe('normalization steps', () => {
+    it('should fold diacritics, including letters without a decomposition', () => {
+        expect(NORMALIZATION_STEPS.foldDiacritics('RTÉjr')).toBe('RTEjr');
+        expect(NORMALIZATION_STEPS.foldDiacritics('Canal+ Séries Ñ')).toBe('Canal+ Series N');
+        expect(NORMALIZATION_STEPS.foldDiacritics('Ørsted Æble Łódź')).toBe('Orsted AEble Lodz');
+    });
+
+    it('should fold compatibility characters', () => {
+        expect(NORMALIZATION_STEPS.foldDiacritics('ＢＢＣ　Ｏｎｅ')).toBe('BBC One');
+    });
+
+    it('should strip bracketed qualifiers but keep variant markers', () => {
+        expect(NORMALIZATION_STEPS.stripBrackets('BBC One (London)')).toBe('BBC One  ');
+        expect(NORMALIZATION_STEPS.stripBrackets('HBO [East] {SD}')).toBe('HBO    ');
+        expect(NORMALIZATION_STEPS.stripBrackets('BBC One (HD)')).toBe('BBC One (HD)');
+        expect(NORMALIZATION_STEPS.stripBrackets('Dave (+1)')).toBe('Dave (+1)');
+        expect(NORMALIZATION_STEPS.stripBrackets('Sky Sports [4k]')).toBe('Sky Sports [4k]');
+    });
+
+    it('should unbracket variant markers and attach +1 to the name', () => {
+        expect(NORMALIZATION_STEPS.suffixes('BBC One (HD)')).toBe('BBC One  HD');
+        expect(NORMALIZATION_STEPS.suffixes('Dave (+1)')).toBe('Dave+1');
+        expect(NORMALIZATION_STEPS.suffixes('Channel 5 + 1')).toBe('Channel 5+1');
+        expect(NORMALIZATION_STEPS.suffixes('Channel +12')).toBe('Channel +12');
+    });
+
+    it('should remove the spaces around ampersands', () => {
+        expect(NORMALIZATION_STEPS.ampersands('A & E')).toBe('A&E');
+        expect(NORMALIZATION_STEPS.ampersands('Sci-Fi &  Horror')).toBe('Sci-Fi&Horror');
+    });
+
+    it('should remove punctuation in any script, keeping letters and digits', () => {
+        expect(NORMALIZATION_STEPS.punctuation('Disc. Science!')).toBe('Disc Science');
+        expect(NORMALIZATION_STEPS.punctuation('ITV1/STV/UTV')).toBe('ITV1STVUTV');
+        expect(NORMALIZATION_STEPS.punctuation('Al Jazeera عربي')).toBe('Al Jazeera عربي');
+        expect(NORMALIZATION_STEPS.punctuation('Россия-1')).toBe('Россия1');
+    });
+
+    it('should turn typographic apostrophes into plain ones', () => {
+        expect(NORMALIZATION_STEPS.punctuation('Rock’n Roll')).toBe('Rock\'n Roll');
+    });
+
+    it('should collapse whitespace and trim', () => {
+        expect(NORMALIZATION_STEPS.whitespace('  BBC \t One  ')).toBe('BBC One');
+    });
+});
+
+describe('normalizeChannelName', () => {
+    it.each([
+        ['BBC One', 'BBC ONE'],
+        ['RTÉjr', 'RTEJR'],
+        ['Disc. Science', 'DISC SCIENCE'],
+        ['ITV1/STV/UTV', 'ITV1STVUTV'],
+        ['Sky Cinema Sci-Fi & Horror HD', 'SKY CINEMA SCIFI&HORROR HD'],
+        ['A & E', 'A&E'],
+        ['Channel 5 +1', 'CHANNEL 5+1'],
+        ['BBC One (London) +1', 'BBC ONE+1'],
+        ['BBC One (HD)', 'BBC ONE HD'],
+        ['Dave (+1)', 'DAVE+1'],
+        ['Straße', 'STRASSE'],
+        ['Nick Jr.', 'NICK JR'],
+        ['  ', '']
+    ])('should normalize %j to %j', (name, expected) => {
+        expect(normalizeChannelName(name)).toBe(expected);
+    });
+
+    it('should leave normalized names unchanged', () => {
+        ['BBC ONE', 'DISC SCIENCE', 'CHANNEL 5+1', 'A&E', 'RTEJR'].forEach(name => {
+            expect(normalizeChannelName(name)).toBe(name);
+        });
+    });
+});
+
+describe('createNormalizer', () => {
+    it('should run only the given steps, in order', () => {
+        expect(createNormalizer(['uppercase'])('Disc. Science')).toBe('DISC. SCIENCE');
+        expect(createNormalizer(['punctuation', 'uppercase'])('RTÉjr')).toBe('RTÉJR');
+    });
+
+    it('should run custom steps alongside built-in ones', () => {
+        const normalize = createNormalizer(['uppercase', name => name.replace(/^THE /, ''), 'whitespace']);
+
+        expect(normalize('The Box ')).toBe('BOX');
+    });
+
+    it('should reject unknown step names', () => {
+        expect(() => createNormalizer(['lowercase' as any])).toThrow('Unknown normalization step "lowercase"');
+        expect(() => createNormalizer(['toString' as any])).toThrow('Unknown normalization step "toString"');
+    });
+});
+
+describe('findUnreachableOverrides', () => {
+    it('should report keys that are not normalized names', () => {
+        expect(findUnreachableOverrides({
+            'RTÉjr': 'RTE Junior',
+            'Nick': 'Nickelodeon',
+            'DISC. SCIENCE': 'Discovery Science',
+            'DISC TURBO': 'Discovery Turbo',
+            '5+1': 'Channel5+1'
+        })).toEqual([
+            { key: 'RTÉjr', normalized: 'RTEJR' },
+            { key: 'Nick', normalized: 'NICK' },
+            { key: 'DISC. SCIENCE', normalized: 'DISC SCIENCE' }
+        ]);
+    });
+
+    it('should check keys against the given normalizer', () => {
+        expect(findUnreachableOverrides({ 'Nick': 'Nickelodeon' }, createNormalizer(['whitespace']))).toEqual([]);
+    });
+});
@@ -0,0 +1,91 @@
+import { annotatePlaylist } from '../utils/playlist';
+import type { Channel } from '../utils/scraper';
+
+const lineup: Channel[] = [
+    { number: '101', name: 'BBC ONE', canonicalId: 'bbc-one' },
+    { number: '105', name: 'Channel5', canonicalId: 'channel-5' },
+    { number: '106', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic' },
+    { number: '526', name: 'Discovery Science', canonicalId: 'discovery-science' }
+];
+
+const playlist = [
+    '#EXTM3U x-tvg-url="https://example.com/epg.xml"',
+    '#EXTINF:-1 tvg-id="atlantic" tvg-name="Sky Atlantic" group-title="Drama",Sky Atlantic HD',
+    'https://example.com/atlantic',
+    '#EXTINF:-1 tvg-id="mystery" tvg-chno="7",Mystery, "The" Channel',
+    '#EXTVLCOPT:http-user-agent=VLC',
+    'https://example.com/mystery',
+    '#EXTINF:-1 group-title="Entertainment",BBC One (London)',
+    'https://example.com/bbc-one',
+    '#EXTINF:-1 tvg-name="Disc. Science" tvg-chno="9",Discovery',
+    'https://example.com/science',
+    ''
+].join('\n');
+
+describe('annotatePlaylist', () => {
+    it('should write the numbers of matched entries into tvg-chno', () => {
+        const result = annotatePlaylist(playlist, lineup);
+
+        expect(result.playlist).toBe([
+            '#EXTM3U x-tvg-url="https://example.com/epg.xml"',
+            '#EXTINF:-1 tvg-id="atlantic" tvg-name="Sky Atlantic" group-title="Drama" tvg-chno="106",Sky Atlantic HD',
+            'https://example.com/atlantic',
+            '#EXTINF:-1 tvg-id="mystery" tvg-chno="7",Mystery, "The" Channel',
+            '#EXTVLCOPT:http-user-agent=VLC',
+            'https://example.com/mystery',
+            '#EXTINF:-1 group-title="Entertainment" tvg-chno="101",BBC One (London)',
+            'https://example.com/bbc-one',
+            '#EXTINF:-1 tvg-name="Disc. Science" tvg-chno="526",Discovery',
+            'https://example.com/science',
+            ''
+        ].join('\n'));
+    });
+
+    it('should report the matched and unmatched entries', () => {
+        const result = annotatePlaylist(playlist, lineup);
+
+        expect(result.entries).toBe(4);
+        expect(result.matched).toEqual([
+            { line: 2, name: 'Sky Atlantic', number: '106', channel: 'SKY ATLANTIC' },
+            { line: 7, name: 'BBC One (London)', number: '101', channel: 'BBC ONE' },
+            { line: 9, name: 'Disc. Science', number: '526', channel: 'Discovery Science' }
+        ]);
+        expect(result.unmatched).toEqual([{ line: 4, name: 'Mystery, "The" Channel' }]);
+    });
+
+    it('should fall back to the title and to the canonical catalogue', () => {
+        const result = annotatePlaylist([
+            '#EXTM3U',
+            '#EXTINF:-1 tvg-name="Unknown",Channel 5',
+            'https://example.com/5',
+            '#EXTINF:-1 tvg-name="Old Name",Something Else'
+        ].join('\n'), lineup);
+
+        expect(result.matched).toEqual([{ line: 2, name: 'Channel 5', number: '105', channel: 'Channel5' }]);
+        expect(result.unmatched).toEqual([{ line: 4, name: 'Old Name', title: 'Something Else' }]);
+    });
+
+    it('should sort matched entries by number, keeping unmatched ones last', () => {
+        const sorted = annotatePlaylist(playlist, lineup, { sort: true }).playlist.split('\n');
+
+        expect(sorted.filter(line => !line.startsWith('#EXT'))).toEqual([
+            'https://example.com/bbc-one',
+            'https://example.com/atlantic',
+            'https://example.com/science',
+            'https://example.com/mystery',
+            ''
+        ]);
+        expect(sorted[0]).toBe('#EXTM3U x-tvg-url="https://example.com/epg.xml"');
+        expect(sorted[sorted.length - 3]).toBe('#EXTVLCOPT:http-user-agent=VLC');
+    });
+
+    it('should keep CRLF line endings', () => {
+        const result = annotatePlaylist('#EXTM3U\r\n#EXTINF:-1,BBC One\r\nhttps://example.com/1\r\n', lineup);
+
+        expect(result.playlist).toBe('#EXTM3U\r\n#EXTINF:-1 tvg-chno="101",BBC One\r\nhttps://example.com/1\r\n');
+    });
+
+    it('should reject text that is not an M3U playlist', () => {
+        expect(() => annotatePlaylist('BBC One,https://example.com/1', lineup)).toThrow('Playlist does not start with #EXTM3U');
+    });
+});
@@ -0,0 +1,147 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createHostLimiter, pickUserAgent } from '../utils/politeness';
+import { runScraper } from '../utils/scraper';
+import { createTableScraper } from '../utils/tableScraper';
+
+const PAGE = `<table id="guide">
+    <tr><td class="number">101</td><td class="name">BBC One</td></tr>
+</table>`;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('createHostLimiter', () => {
+    it('should limit the tasks running at once per host', async () => {
+        const limiter = createHostLimiter();
+        let running = 0;
+        let peak = 0;
+        const task = async () => {
+            peak = Math.max(peak, ++running);
+            await wait(20);
+            running--;
+        };
+
+        await Promise.all([
+            limiter.schedule('http://guide.example/a', { concurrency: 2 }, task),
+            limiter.schedule('http://guide.example/b', { concurrency: 2 }, task),
+            limiter.schedule('http://guide.example/c', { concurrency: 2 }, task)
+        ]);
+        expect(peak).toBe(2);
+    });
+
+    it('should space out the starts of tasks on the same host', async () => {
+        const limiter = createHostLimiter();
+        const starts: Record<string, number[]> = { same: [], other: [] };
+        const task = (host: string) => async () => {
+            starts[host].push(Date.now());
+        };
+
+        await Promise.all([
+            limiter.schedule('http://same.example/a', { interval: 100 }, task('same')),
+            limiter.schedule('http://same.example/b', { interval: 100 }, task('same')),
+            limiter.schedule('http://other.example/a', { interval: 100 }, task('other'))
+        ]);
+        expect(starts.same[1] - starts.same[0]).toBeGreaterThanOrEqual(95);
+        expect(starts.other[0] - starts.same[0]).toBeLessThan(95);
+    });
+
+    it('should free the slot of a failed task', async () => {
+        const limiter = createHostLimiter();
+
+        await expect(limiter.schedule('http://guide.example/', { concurrency: 1 }, async () => {
+            throw new Error('load failed');
+        })).rejects.toThrow('load failed');
+        await expect(limiter.schedule('http://guide.example/', { concurrency: 1 }, async () => 'loaded')).resolves.toBe('loaded');
+    });
+});
+
+describe('pickUserAgent', () => {
+    it('should use the user agent setting when fixed', () => {
+        expect(pickUserAgent({ userAgent: 'Fixed/1.0', userAgents: ['A/1.0', 'B/1.0'], userAgentRotation: 'fixed' })).toBe('Fixed/1.0');
+    });
+
+    it('should cycle through the user agents', () => {
+        const settings = { userAgent: 'Fixed/1.0', userAgents: ['Cycle/1.0', 'Cycle/2.0'], userAgentRotation: 'round-robin' as const };
+
+        expect([1, 2, 3].map(() => pickUserAgent(settings))).toEqual(['Cycle/1.0', 'Cycle/2.0', 'Cycle/1.0']);
+    });
+
+    it('should pick random user agents from the list', () => {
+        const agents = ['A/1.0', 'B/1.0', 'C/1.0'];
+
+        expect(agents).toContain(pickUserAgent({ userAgent: 'Fixed/1.0', userAgents: agents, userAgentRotation: 'random' }));
+        expect(pickUserAgent({ userAgent: 'Fixed/1.0', userAgentRotation: 'random' })).toEqual(expect.any(String));
+    });
+});
+
+describe('runScraper politeness', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: { url: string; userAgent?: string; at: number }[];
+    let robots: string;
+
+    const scraper = (path: string) => createTableScraper({
+        name: 'Guide',
+        url: `${baseUrl}${path}`,
+        mode: 'http',
+        rowSelector: '#guide tr',
+        columns: { number: 'td.number', name: 'td.name' }
+    });
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            requests.push({ url: req.url || '/', userAgent: req.headers['user-agent'], at: Date.now() });
+            if (req.url === '/robots.txt') {
+                res.writeHead(200, { 'content-type': 'text/plain' });
+                res.end(robots);
+            } else {
+                res.writeHead(200, { 'content-type': 'text/html' });
+                res.end(PAGE);
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    beforeEach(() => {
+        requests = [];
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should rate limit page loads across scrapers of the same host', async () => {
+        const settings = { rateLimit: { concurrency: 1, interval: 200 } };
+        const hostLimiter = createHostLimiter();
+
+        await Promise.all([
+            runScraper(scraper('/sky'), { settings, hostLimiter }),
+            runScraper(scraper('/virgin'), { settings, hostLimiter })
+        ]);
+        expect(requests.map(request => request.url)).toEqual(['/sky', '/virgin']);
+        // Arrival times at the server vary a little with the time each request takes to send
+        expect(requests[1].at - requests[0].at).toBeGreaterThanOrEqual(150);
+    });
+
+    it('should rotate the user agent per run', async () => {
+        const settings = { userAgents: ['Rotating/1.0', 'Rotating/2.0'], userAgentRotation: 'round-robin' as const };
+
+        await runScraper(scraper('/guide'), { settings, hostLimiter: createHostLimiter() });
+        await runScraper(scraper('/guide'), { settings, hostLimiter: createHostLimiter() });
+        expect(requests.map(request => request.userAgent)).toEqual(['Rotating/1.0', 'Rotating/2.0']);
+    });
+
+    it('should check robots.txt before loading the page', async () => {
+        robots = 'User-agent: *\nDisallow: /private\n';
+        const settings = { robotsTxt: true, userAgent: 'Polite/1.0' };
+
+        await expect(runScraper(scraper('/guide'), { settings })).resolves.toHaveLength(1);
+        await expect(runScraper(scraper('/private/guide'), { settings }))
+            .rejects.toThrow(`robots.txt of ${baseUrl} disallows ${baseUrl}/private/guide for user agent "Polite/1.0"`);
+        expect(requests.map(request => `${request.url} ${request.userAgent}`)).toEqual([
+            '/robots.txt Polite/1.0',
+            '/guide Polite/1.0'
+        ]);
+    });
+});
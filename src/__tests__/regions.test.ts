@@ -0,0 +1,42 @@
+import { findRegion, selectRegion, splitRegions } from '../utils/regions';
+
+const channels = [
+    { number: '101', name: 'BBC ONE' },
+    { number: '101', name: 'BBC ONE WALES', region: 'Wales' },
+    { number: '101', name: 'BBC ONE SCOTLAND', region: 'Scotland' },
+    { number: '102', name: 'BBC TWO' },
+    { number: '104', name: 'CHANNEL 4' },
+    { number: '104', name: 'S4C', region: 'Wales' },
+    { number: '161', name: 'BBC ALBA', region: 'Scotland' }
+];
+
+describe('selectRegion', () => {
+    it('should return only national rows without a region', () => {
+        expect(selectRegion(channels).map(c => c.name)).toEqual(['BBC ONE', 'BBC TWO', 'CHANNEL 4']);
+    });
+
+    it('should replace national rows with the region\'s rows on the same numbers', () => {
+        expect(selectRegion(channels, 'wales').map(c => c.name)).toEqual(['BBC ONE WALES', 'BBC TWO', 'S4C']);
+    });
+
+    it('should include regional rows on numbers without a national row', () => {
+        expect(selectRegion(channels, 'Scotland').map(c => c.name)).toEqual(['BBC ONE SCOTLAND', 'BBC TWO', 'CHANNEL 4', 'BBC ALBA']);
+    });
+});
+
+describe('splitRegions', () => {
+    it('should build a lineup per region', () => {
+        const lineups = splitRegions(channels, ['England', 'Wales']);
+
+        expect(Object.keys(lineups)).toEqual(['England', 'Wales']);
+        expect(lineups.England).toEqual(selectRegion(channels));
+        expect(lineups.Wales).toEqual(selectRegion(channels, 'Wales'));
+    });
+});
+
+describe('findRegion', () => {
+    it('should match regions case-insensitively', () => {
+        expect(findRegion(['Wales', 'Northern Ireland'], 'northern ireland')).toBe('Northern Ireland');
+        expect(findRegion(['Wales'], 'Cornwall')).toBeUndefined();
+    });
+});
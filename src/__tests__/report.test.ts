@@ -0,0 +1,75 @@
+import { createScrapeReport, PACKAGE_VERSION, serializeError, toProviderReport } from '../utils/report';
+import { ValidationError } from '../utils/validation';
+
+describe('serializeError', () => {
+    it('should keep the name and message of an error', () => {
+        expect(serializeError(new TypeError('bad row'))).toEqual({ name: 'TypeError', message: 'bad row' });
+    });
+
+    it('should keep the rule, severity and details of a validation error', () => {
+        const error = new ValidationError('uniqueNumbers', 'error', 'Duplicate numbers', ['101']);
+
+        expect(JSON.parse(JSON.stringify(serializeError(error)))).toEqual({
+            name: 'ValidationError',
+            message: 'Duplicate numbers',
+            rule: 'uniqueNumbers',
+            severity: 'error',
+            details: ['101']
+        });
+    });
+});
+
+describe('toProviderReport', () => {
+    it('should describe a provider result', () => {
+        const report = toProviderReport({
+            name: 'SKY',
+            success: true,
+            duration: 1200,
+            channelCount: 2,
+            channels: [],
+            url: 'https://example.com/sky',
+            scrapedAt: '2024-01-01T00:00:00.000Z',
+            attempts: 1,
+            warned: true,
+            validationErrors: [new ValidationError('maxChangePercent', 'warning', 'Lineup changed by 40%')]
+        });
+
+        expect(report).toEqual({
+            provider: 'SKY',
+            url: 'https://example.com/sky',
+            version: PACKAGE_VERSION,
+            scrapedAt: '2024-01-01T00:00:00.000Z',
+            success: true,
+            status: 'succeeded',
+            duration: 1200,
+            attempts: 1,
+            channelCount: 2,
+            warned: true,
+            fromCache: false,
+            validationErrors: [{ name: 'ValidationError', message: 'Lineup changed by 40%', rule: 'maxChangePercent', severity: 'warning' }]
+        });
+    });
+});
+
+describe('createScrapeReport', () => {
+    it('should summarise every provider, failed ones included', () => {
+        const report = createScrapeReport([
+            { name: 'SKY', success: true, duration: 10, channelCount: 3 },
+            { name: 'DISH', success: false, duration: 5, error: new Error('Timeout') }
+        ], 1000, 3500);
+
+        expect(report).toMatchObject({
+            version: PACKAGE_VERSION,
+            startedAt: new Date(1000).toISOString(),
+            totalDuration: 2500,
+            successRate: '50.0%',
+            totalChannels: 3
+        });
+        expect(report.providers.map(entry => entry.provider)).toEqual(['SKY', 'DISH']);
+        expect(report.providers[1].error).toEqual({ name: 'Error', message: 'Timeout' });
+    });
+
+    it('should read the package version', () => {
+        expect(PACKAGE_VERSION).toMatch(/^\d+\.\d+\.\d+/);
+    });
+});
@@ -0,0 +1,99 @@
+import { checkRobotsRules, checkRobotsTxt, parseRobotsTxt } from '../utils/robots';
+
+const ROBOTS = `# Guide site
+User-agent: *
+Disallow: /private
+Allow: /private/guide
+Disallow: /*.json$
+Crawl-delay: 2
+
+User-agent: ChannelBot
+User-agent: OtherBot
+Disallow: /
+Allow: /tv-guide
+`;
+
+describe('parseRobotsTxt', () => {
+    it('should group rules under consecutive user agents', () => {
+        expect(parseRobotsTxt(ROBOTS)).toEqual({
+            groups: [
+                {
+                    agents: ['*'],
+                    rules: [
+                        { allow: false, path: '/private' },
+                        { allow: true, path: '/private/guide' },
+                        { allow: false, path: '/*.json$' }
+                    ],
+                    crawlDelay: 2
+                },
+                {
+                    agents: ['channelbot', 'otherbot'],
+                    rules: [{ allow: false, path: '/' }, { allow: true, path: '/tv-guide' }]
+                }
+            ]
+        });
+    });
+
+    it('should ignore empty disallow rules and lines outside a group', () => {
+        expect(parseRobotsTxt('Disallow: /\nSitemap: https://example.com/sitemap.xml\nUser-agent: *\nDisallow:\n')).toEqual({
+            groups: [{ agents: ['*'], rules: [] }]
+        });
+    });
+});
+
+describe('checkRobotsRules', () => {
+    const robots = parseRobotsTxt(ROBOTS);
+    const browser = 'Mozilla/5.0 (X11; Linux x86_64) Chrome/120.0';
+
+    it('should let the longest matching rule win', () => {
+        expect(checkRobotsRules(robots, browser, 'https://example.com/private/page').allowed).toBe(false);
+        expect(checkRobotsRules(robots, browser, 'https://example.com/private/guide?day=1').allowed).toBe(true);
+        expect(checkRobotsRules(robots, browser, 'https://example.com/tv').allowed).toBe(true);
+    });
+
+    it('should match wildcards and end anchors', () => {
+        expect(checkRobotsRules(robots, browser, 'https://example.com/lineup.json').allowed).toBe(false);
+        expect(checkRobotsRules(robots, browser, 'https://example.com/lineup.json?v=2').allowed).toBe(true);
+    });
+
+    it('should apply the group naming the user agent instead of the * group', () => {
+        expect(checkRobotsRules(robots, 'ChannelBot/2.0', 'https://example.com/tv')).toEqual({ allowed: false });
+        expect(checkRobotsRules(robots, 'ChannelBot/2.0', 'https://example.com/tv-guide')).toEqual({ allowed: true });
+        expect(checkRobotsRules(robots, browser, 'https://example.com/tv')).toEqual({ allowed: true, crawlDelay: 2 });
+    });
+
+    it('should prefer allow on a tie', () => {
+        const tied = parseRobotsTxt('User-agent: *\nDisallow: /guide\nAllow: /guide\n');
+
+        expect(checkRobotsRules(tied, browser, 'https://example.com/guide').allowed).toBe(true);
+    });
+});
+
+describe('checkRobotsTxt', () => {
+    it('should fetch robots.txt once per origin', async () => {
+        const fetcher = jest.fn().mockResolvedValue({ status: 200, body: ROBOTS });
+
+        await expect(checkRobotsTxt('https://cached.example/private', 'Agent', fetcher)).resolves.toEqual({ allowed: false, crawlDelay: 2 });
+        await expect(checkRobotsTxt('https://cached.example/guide', 'Agent', fetcher)).resolves.toEqual({ allowed: true, crawlDelay: 2 });
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(fetcher).toHaveBeenCalledWith('https://cached.example/robots.txt');
+    });
+
+    it('should allow everything when robots.txt is missing', async () => {
+        const fetcher = jest.fn().mockResolvedValue({ status: 404, body: '' });
+
+        await expect(checkRobotsTxt('https://missing.example/guide', 'Agent', fetcher)).resolves.toEqual({ allowed: true });
+    });
+
+    it('should allow nothing while robots.txt is unreachable, and try again next time', async () => {
+        const fetcher = jest.fn()
+            .mockResolvedValueOnce({ status: 503, body: '' })
+            .mockRejectedValueOnce(new Error('ECONNRESET'))
+            .mockResolvedValueOnce({ status: 200, body: '' });
+
+        await expect(checkRobotsTxt('https://down.example/guide', 'Agent', fetcher)).resolves.toEqual({ allowed: false });
+        await expect(checkRobotsTxt('https://down.example/guide', 'Agent', fetcher)).resolves.toEqual({ allowed: false });
+        await expect(checkRobotsTxt('https://down.example/guide', 'Agent', fetcher)).resolves.toEqual({ allowed: true });
+        expect(fetcher).toHaveBeenCalledTimes(3);
+    });
+});
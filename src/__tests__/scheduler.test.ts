@@ -0,0 +1,48 @@
+import { runWithConcurrency } from '../utils/scheduler';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runWithConcurrency', () => {
+    it('should return results in item order', async () => {
+        const { results, timings } = await runWithConcurrency([30, 10, 20], 2, async ms => {
+            await delay(ms);
+            return ms * 2;
+        });
+
+        expect(results).toEqual([60, 20, 40]);
+        expect(timings).toHaveLength(3);
+        timings.forEach(timing => expect(timing.duration).toBeGreaterThanOrEqual(0));
+    });
+
+    it('should start the next item as soon as a slot frees up', async () => {
+        const events: string[] = [];
+
+        await runWithConcurrency(['slow', 'fast', 'next'], 2, async name => {
+            events.push(`start ${name}`);
+            await delay(name === 'slow' ? 50 : 5);
+            events.push(`end ${name}`);
+        });
+
+        expect(events.indexOf('start next')).toBeLessThan(events.indexOf('end slow'));
+    });
+
+    it('should never run more than the limit at once', async () => {
+        let running = 0;
+        let peak = 0;
+
+        await runWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+            peak = Math.max(peak, ++running);
+            await delay(5);
+            running--;
+        });
+
+        expect(peak).toBe(2);
+    });
+
+    it('should reject when a worker rejects', async () => {
+        await expect(runWithConcurrency([1, 2], 2, async item => {
+            if (item === 2) throw new Error('Failed');
+            return item;
+        })).rejects.toThrow('Failed');
+    });
+});
@@ -0,0 +1,55 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { runScraperCLI, type ScraperConfig } from '../utils/scraper';
+
+const PAGE = `<table id="guide">
+    <tr><td class="number">101</td><td class="name">BBC One</td></tr>
+</table>`;
+
+describe('runScraperCLI', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: string[];
+    const argv = process.argv;
+
+    const extract: ScraperConfig['extract'] = async document => document.rows('#guide tr', { number: 'td.number', name: 'td.name' });
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            requests.push(req.url || '/');
+            res.writeHead(200, { 'content-type': 'text/html' });
+            res.end(req.url === '/empty' ? '<table id="guide"></table>' : PAGE);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    beforeEach(() => {
+        requests = [];
+        process.argv = ['node', 'guide.ts', '--log-level', 'silent'];
+    });
+
+    afterEach(() => {
+        process.argv = argv;
+        jest.restoreAllMocks();
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should fall back to the next source when a lineup fails validation', async () => {
+        const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        await runScraperCLI({
+            url: `${baseUrl}/empty`,
+            mode: 'http',
+            extract,
+            validation: { minChannels: 1 },
+            sources: [{ url: `${baseUrl}/guide`, mode: 'http', extract }]
+        });
+
+        expect(requests).toEqual(['/empty', '/guide']);
+        expect(JSON.parse(log.mock.calls[0][0])).toEqual([expect.objectContaining({ number: '101', name: 'BBC ONE' })]);
+    });
+});
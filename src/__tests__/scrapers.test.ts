@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import { chromium } from 'playwright';
+import { runScraper, type RunScraperOptions, type ScraperConfig } from '../utils/scraper';
+import directvConfig from '../scrapers/directv';
+import dishConfig from '../scrapers/dish';
+import skyConfig from '../scrapers/sky';
+import virginConfig from '../scrapers/virgin';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// Browser-mode replay still renders the snapshot in Chromium, so skip when it is not installed
+const describeWithBrowser = fs.existsSync(chromium.executablePath()) ? describe : describe.skip;
+
+/**
+ * Channels in the DIRECTV fixture, the same whether it is rendered in Chromium or parsed from HTML
+ */
+const DIRECTV_CHANNELS = [
+    { number: '7', name: 'ABC', canonicalId: 'abc' },
+    { number: '265', name: 'A&E', canonicalId: 'a-and-e' },
+    { number: '254', name: 'AMC', canonicalId: 'amc' },
+    { number: '349', name: 'CHEDDAR NEWS', canonicalId: 'cheddar-news' },
+    { number: '202', name: 'CNN', canonicalId: 'cnn' },
+    { number: '104', name: 'DIRECTV 4K', canonicalId: 'directv-4k', isUHD: true },
+    { number: '206', name: 'ESPN', canonicalId: 'espn' },
+    { number: '209', name: 'ESPN2', canonicalId: 'espn2' },
+    { number: '501', name: 'HBO', canonicalId: 'hbo', altNumbers: ['501-1'] },
+    { number: '502', name: 'HBO 2', canonicalId: 'hbo-2', altNumbers: ['503'] },
+    { number: '299', name: 'NICKELODEON', canonicalId: 'nickelodeon' }
+];
+
+/**
+ * Runs a scraper against its committed fixture without writing any output
+ */
+const replay = (config: ScraperConfig, snapshotName: string, options: RunScraperOptions = {}) => runScraper(
+    { ...config, outputFile: undefined },
+    { ...options, snapshotMode: 'replay', snapshotDir: FIXTURES_DIR, snapshotName }
+);
+
+describeWithBrowser('browser scrapers in replay mode', () => {
+    jest.setTimeout(30000);
+
+    it('should scrape DIRECTV, keeping additional numbers as altNumbers', async () => {
+        const channels = await replay(directvConfig, 'directv');
+
+        expect(channels).toEqual(DIRECTV_CHANNELS);
+    });
+
+    it.each([
+        ['DISH', dishConfig, 'dish'],
+        ['Sky', skyConfig, 'sky'],
+        ['Virgin', virginConfig, 'virgin']
+    ])('should scrape %s the same in browser and http mode', async (_name, config, snapshotName) => {
+        const inBrowser = await replay({ ...config, mode: 'browser' }, snapshotName, { includeAllRegions: true });
+
+        expect(inBrowser).toEqual(await replay(config, snapshotName, { includeAllRegions: true }));
+    });
+});
+
+describe('http scrapers in replay mode', () => {
+    it('should not launch a browser', async () => {
+        const launch = jest.spyOn(chromium, 'launch');
+
+        await replay(dishConfig, 'dish');
+
+        expect(launch).not.toHaveBeenCalled();
+        launch.mockRestore();
+    });
+
+    it('should scrape DIRECTV from its table definition without a browser', async () => {
+        const channels = await replay({ ...directvConfig, mode: 'http' }, 'directv');
+
+        expect(channels).toEqual(DIRECTV_CHANNELS);
+    });
+
+    it('should scrape DISH, skipping number ranges', async () => {
+        const channels = await replay(dishConfig, 'dish');
+
+        expect(channels).toEqual([
+            { number: '118', name: 'A&E', canonicalId: 'a-and-e' },
+            { number: '131', name: 'AMC', canonicalId: 'amc' },
+            { number: '200', name: 'CNN', canonicalId: 'cnn' },
+            { number: '140', name: 'ESPN', canonicalId: 'espn' },
+            { number: '143', name: 'ESPN2', canonicalId: 'espn2' },
+            { number: '170', name: 'NICKELODEON', canonicalId: 'nickelodeon' },
+            { number: '241', name: 'PARAMOUNT NETWORK', canonicalId: 'paramount-network' }
+        ]);
+    });
+
+    it('should scrape Sky, using category rows as channel categories', async () => {
+        const channels = await replay(skyConfig, 'sky');
+
+        expect(channels).toEqual([
+            { number: '101', name: 'BBC ONE', canonicalId: 'bbc-one', category: 'Entertainment' },
+            { number: '102', name: 'BBC TWO', canonicalId: 'bbc-two', category: 'Entertainment' },
+            { number: '103', name: 'ITV1', canonicalId: 'itv1', category: 'Entertainment' },
+            { number: '105', name: 'Channel5', canonicalId: 'channel-5', category: 'Entertainment' },
+            { number: '106', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic', category: 'Entertainment' },
+            { number: '155', name: 'Channel5+1', canonicalId: 'channel-5-plus-1', timeshiftOf: 'Channel5', category: 'Entertainment' },
+            { number: '308', name: 'SKY CINEMA SCFI/HORROR', canonicalId: 'sky-cinema-scifi-horror', category: 'Movies' },
+            { number: '526', name: 'Discovery Science', canonicalId: 'discovery-science', category: 'Documentaries' },
+            { number: '612', name: 'RTE Junior', canonicalId: 'rte-junior', category: 'Kids' }
+        ]);
+    });
+
+    it('should scrape Virgin with regional variants replacing national channels', async () => {
+        const channels = await replay(virginConfig, 'virgin', { region: 'wales' });
+
+        expect(channels.filter(channel => channel.region)).toEqual([
+            { number: '101', name: 'BBC ONE WALES', category: 'Entertainment', region: 'Wales' },
+            { number: '104', name: 'S4C', category: 'Entertainment', region: 'Wales' }
+        ]);
+        expect(channels.map(channel => channel.number)).toEqual(['101', '102', '103', '104', '105', '107', '155', '428', '527']);
+    });
+
+    it('should scrape Virgin, skipping regional variants', async () => {
+        const channels = await replay(virginConfig, 'virgin');
+
+        expect(channels).toEqual([
+            { number: '101', name: 'BBC ONE', canonicalId: 'bbc-one', category: 'Entertainment' },
+            { number: '102', name: 'BBC TWO', canonicalId: 'bbc-two', category: 'Entertainment' },
+            { number: '103', name: 'ITV1', canonicalId: 'itv1', category: 'Entertainment' },
+            { number: '104', name: 'CHANNEL 4', canonicalId: 'channel-4', category: 'Entertainment' },
+            { number: '105', name: 'Channel5 HD', canonicalId: 'channel-5-hd', isHD: true, category: 'Entertainment' },
+            { number: '107', name: 'SKY ATLANTIC', canonicalId: 'sky-atlantic', category: 'Entertainment' },
+            { number: '155', name: 'Channel5+1', canonicalId: 'channel-5-plus-1', timeshiftOf: 'Channel5', category: 'Entertainment' },
+            { number: '428', name: 'SKY CINEMA SCFI/HORROR', canonicalId: 'sky-cinema-scifi-horror', isHD: true, category: 'Movies' },
+            { number: '527', name: 'TNT Ultimate', canonicalId: 'tnt-sports-ultimate', category: 'Sport' }
+        ]);
+    });
+});
+
+describe('replay mode', () => {
+    it('should fail when the snapshot does not exist', async () => {
+        await expect(replay(directvConfig, 'missing')).rejects.toThrow(/Snapshot .*missing\.html not found/);
+    });
+});
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLineupServer, type LineupServer } from '../index';
+import { runScraper } from '../utils/scraper';
+
+jest.mock('../utils/scraper', () => ({
+    runScraper: jest.fn()
+}));
+
+const virginChannels = [
+    { number: '101', name: 'BBC ONE' },
+    { number: '101', name: 'BBC ONE WALES', region: 'Wales' },
+    { number: '102', name: 'BBC TWO' }
+];
+
+describe('lineup server', () => {
+    let dir: string;
+    let server: LineupServer;
+    let baseUrl: string;
+
+    const start = async () => {
+        server = createLineupServer({ outputDir: dir });
+        const { port } = await server.listen(0, '127.0.0.1');
+        baseUrl = `http://127.0.0.1:${port}`;
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'server-'));
+        await start();
+    });
+
+    afterEach(async () => {
+        await server.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should list providers with their status', async () => {
+        const response = await fetch(`${baseUrl}/providers`);
+        const providers = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(providers.map((p: { name: string }) => p.name)).toEqual(['DIRECTV', 'DISH', 'SKY', 'Virgin']);
+        expect(providers[3]).toEqual({
+            name: 'Virgin',
+            url: 'https://rxtvinfo.com/virgin-media-channel-list-uk/',
+            regions: ['England', 'Wales', 'Scotland', 'Northern Ireland'],
+            status: 'idle'
+        });
+    });
+
+    it('should scrape on first request and serve from memory afterwards', async () => {
+        (runScraper as jest.Mock).mockResolvedValue(virginChannels);
+
+        const first = await fetch(`${baseUrl}/providers/virgin/channels`);
+        expect(first.status).toBe(200);
+        expect(first.headers.get('content-type')).toBe('application/json');
+        expect(first.headers.get('x-scrape-status')).toBe('ok');
+        expect((await first.json()).map((c: { name: string }) => c.name)).toEqual(['BBC ONE', 'BBC TWO']);
+
+        const wales = await fetch(`${baseUrl}/providers/Virgin/channels?region=wales&format=m3u`);
+        expect(wales.headers.get('content-type')).toBe('audio/x-mpegurl');
+        expect(await wales.text()).toContain('tvg-chno="101" tvg-name="BBC ONE WALES"');
+
+        expect(runScraper).toHaveBeenCalledTimes(1);
+        expect(fs.existsSync(path.join(dir, 'virgin.json'))).toBe(true);
+        expect(fs.existsSync(path.join(dir, 'virgin-wales.json'))).toBe(true);
+    });
+
+    it('should serve the last good lineup from disk after a restart', async () => {
+        fs.writeFileSync(path.join(dir, 'sky.json'), JSON.stringify([{ number: '101', name: 'BBC ONE' }]));
+
+        const response = await fetch(`${baseUrl}/providers/sky/channels?format=csv`);
+
+        expect(await response.text()).toBe('provider,number,name\nSKY,101,BBC ONE');
+        expect(response.headers.get('last-modified')).toBe(fs.statSync(path.join(dir, 'sky.json')).mtime.toUTCString());
+        expect(runScraper).not.toHaveBeenCalled();
+    });
+
+    it('should scrape a region whose lineup has not been saved yet', async () => {
+        fs.writeFileSync(path.join(dir, 'virgin.json'), JSON.stringify([{ number: '101', name: 'BBC ONE' }]));
+        (runScraper as jest.Mock).mockResolvedValue(virginChannels);
+
+        const response = await fetch(`${baseUrl}/providers/virgin/channels?region=Wales`);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual([
+            expect.objectContaining({ number: '101', name: 'BBC ONE WALES' }),
+            expect.objectContaining({ number: '102', name: 'BBC TWO' })
+        ]);
+        expect(runScraper).toHaveBeenCalledTimes(1);
+        expect(fs.existsSync(path.join(dir, 'virgin-wales.json'))).toBe(true);
+    });
+
+    it('should keep serving the last good lineup when a refresh fails', async () => {
+        (runScraper as jest.Mock).mockResolvedValueOnce(virginChannels).mockRejectedValueOnce(new Error('Timeout'));
+
+        const refreshed = await fetch(`${baseUrl}/providers/virgin/refresh`, { method: 'POST' });
+        expect(refreshed.status).toBe(200);
+        expect(await refreshed.json()).toMatchObject({ status: 'ok', channelCount: 2 });
+
+        const failed = await fetch(`${baseUrl}/providers/virgin/refresh`, { method: 'POST' });
+        const state = await failed.json();
+        expect(failed.status).toBe(502);
+        expect(state).toMatchObject({ status: 'failed', error: 'Timeout', channelCount: 2 });
+        expect(Date.parse(state.lastAttemptAt)).toBeGreaterThanOrEqual(Date.parse(state.lastSuccessAt));
+
+        const channels = await fetch(`${baseUrl}/providers/virgin/channels`);
+        expect(channels.status).toBe(200);
+        expect(channels.headers.get('x-scrape-status')).toBe('failed');
+    });
+
+    it('should report a failed first scrape', async () => {
+        (runScraper as jest.Mock).mockRejectedValue(new Error('Navigation failed'));
+
+        const response = await fetch(`${baseUrl}/providers/dish/channels`);
+
+        expect(response.status).toBe(502);
+        expect(await response.json()).toEqual({ error: 'Navigation failed' });
+    });
+
+    it.each([
+        ['GET', '/providers/nope/channels', 404, 'Provider "nope" not found'],
+        ['GET', '/providers/sky/channels?format=pdf', 400, 'Unknown format "pdf", expected one of: json, m3u, xmltv, csv'],
+        ['GET', '/providers/dish/channels?region=Wales', 404, 'Provider "DISH" does not support region "Wales", expected one of: none'],
+        ['GET', '/providers/sky/refresh', 405, 'Method GET not allowed'],
+        ['GET', '/providers/%E0%A4%A/channels', 400, 'Malformed URL'],
+        ['GET', '/channels', 404, 'Not found: /channels']
+    ])('should reject %s %s', async (method, url, status, error) => {
+        const response = await fetch(`${baseUrl}${url}`, { method });
+
+        expect(response.status).toBe(status);
+        expect(await response.json()).toEqual({ error });
+        expect(runScraper).not.toHaveBeenCalled();
+    });
+});
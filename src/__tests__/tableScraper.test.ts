@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { chromium } from 'playwright';
+import { createTableScraper, loadTableDefinitions, type TableScraperDefinition } from '../utils/tableScraper';
+import { getProvider, loadProviderModules, unregisterProvider } from '../utils/registry';
+import { runScraper } from '../utils/scraper';
+import { fromHtml } from '../utils/document';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+const describeWithBrowser = fs.existsSync(chromium.executablePath()) ? describe : describe.skip;
+
+const definition: TableScraperDefinition = {
+    name: 'Guide',
+    url: 'https://example.com/guide',
+    rowSelector: '#dish-channel-guide tbody tr',
+    columns: { number: 'td.column-2', name: 'td.column-1' },
+    skip: [{ column: 'number', contains: '-' }],
+    validation: { minChannels: 1, numberFormat: '^\\d+$' }
+};
+
+const YAML_DEFINITION = `
+name: Guide
+url: https://example.com/guide
+rowSelector: "#dish-channel-guide tbody tr"
+columns:
+  number: td.column-2
+  name: td.column-1
+skip:
+  - column: number
+    contains: "-"
+validation:
+  minChannels: 1
+  numberFormat: ^\\d+$
+`;
+
+describe('createTableScraper', () => {
+    it('should build a scraper config from a definition', () => {
+        const config = createTableScraper({ ...definition, overrides: { 'A&E': 'AANDE' }, regions: ['North'] });
+
+        expect(config).toEqual({
+            url: 'https://example.com/guide',
+            extract: expect.any(Function),
+            overrides: { 'A&E': 'AANDE' },
+            outputFile: undefined,
+            validation: { minChannels: 1, numberFormat: /^\d+$/ },
+            regions: ['North']
+        });
+    });
+
+    it('should reject definitions missing required fields', () => {
+        expect(() => createTableScraper({ name: 'Guide' } as TableScraperDefinition))
+            .toThrow('Table scraper definition "Guide" is missing url, rowSelector, columns');
+        expect(() => createTableScraper({ ...definition, columns: { number: 'td' } } as TableScraperDefinition))
+            .toThrow('is missing columns.number/columns.name');
+        expect(() => createTableScraper({ ...definition, sources: [{ url: 'https://example.org' }] } as TableScraperDefinition))
+            .toThrow('is missing sources[0].rowSelector, sources[0].columns');
+    });
+
+    it('should build a fallback source per source table', () => {
+        const config = createTableScraper({
+            ...definition,
+            sources: [{ url: 'https://example.org/guide', rowSelector: 'table tr', columns: { number: 'td.num', name: 'td.name' }, overrides: { 'A&E': 'AANDE' } }]
+        });
+
+        expect(config.sources).toEqual([
+            { url: 'https://example.org/guide', extract: expect.any(Function), overrides: { 'A&E': 'AANDE' } }
+        ]);
+    });
+
+    it('should split listed numbers and keep timeshift feeds as altNumbers', async () => {
+        const config = createTableScraper({
+            ...definition,
+            rowSelector: 'tr',
+            columns: { number: 'td.number', name: 'td.name' },
+            skip: [],
+            numbers: { separator: ',', timeshiftSeparator: '-' }
+        });
+        const html = `<table>
+            <tr><td class="name">HBO</td><td class="number">501-1</td></tr>
+            <tr><td class="name">HBO 2</td><td class="number">502, 503</td></tr>
+            <tr><td class="name">Cinemax</td><td class="number">515, 516-1</td></tr>
+        </table>`;
+
+        await expect(config.extract?.(fromHtml(html, config.url))).resolves.toEqual([
+            { number: '501', name: 'HBO', altNumbers: ['501-1'] },
+            { number: '502', name: 'HBO 2', altNumbers: ['503'] },
+            { number: '515', name: 'Cinemax', altNumbers: ['516-1'] }
+        ]);
+    });
+});
+
+describe('loadTableDefinitions', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'definitions-'));
+    });
+
+    afterEach(() => {
+        unregisterProvider('Guide');
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read JSON and YAML definitions', () => {
+        fs.writeFileSync(path.join(dir, 'guide.json'), JSON.stringify([definition]));
+        fs.writeFileSync(path.join(dir, 'guide.yaml'), YAML_DEFINITION);
+
+        expect(loadTableDefinitions(path.join(dir, 'guide.json'))).toEqual([definition]);
+        expect(loadTableDefinitions(path.join(dir, 'guide.yaml'))).toEqual([definition]);
+    });
+
+    it('should register definition files as providers', async () => {
+        fs.writeFileSync(path.join(dir, 'guide.yml'), YAML_DEFINITION);
+
+        await expect(loadProviderModules(dir)).resolves.toEqual(['Guide']);
+        expect(getProvider('guide')?.config.url).toBe('https://example.com/guide');
+    });
+});
+
+describeWithBrowser('table scraper in replay mode', () => {
+    jest.setTimeout(30000);
+
+    it('should extract rows as described by the definition', async () => {
+        const channels = await runScraper(createTableScraper(definition), {
+            snapshotMode: 'replay',
+            snapshotDir: FIXTURES_DIR,
+            snapshotName: 'dish'
+        });
+
+        expect(channels.map(({ number, name }) => `${number} ${name}`)).toEqual([
+            '118 A&E',
+            '131 AMC',
+            '200 CNN',
+            '140 ESPN',
+            '143 ESPN2',
+            '170 NICK',
+            '241 PARAMOUNT NETWORK'
+        ]);
+    });
+});
@@ -0,0 +1,70 @@
+import { validateChannels, ValidationError } from '../utils/validation';
+
+const channels = [
+    { number: '101', name: 'BBC ONE' },
+    { number: '102', name: 'BBC TWO' },
+    { number: '102', name: 'BBC TWO HD' },
+    { number: '1O3', name: 'ITV1' }
+];
+
+describe('validateChannels', () => {
+    it('should return no errors for a valid lineup', () => {
+        expect(validateChannels(channels.slice(0, 2), {
+            minChannels: 1,
+            maxChannels: 10,
+            uniqueNumbers: true,
+            numberFormat: /^\d+$/
+        })).toEqual([]);
+    });
+
+    it('should report channel count violations as errors', () => {
+        const [minError] = validateChannels([], { minChannels: 1 });
+        const [maxError] = validateChannels(channels, { maxChannels: 2 });
+
+        expect(minError).toBeInstanceOf(ValidationError);
+        expect(minError).toMatchObject({ rule: 'minChannels', severity: 'error', message: 'Expected at least 1 channels, got 0' });
+        expect(maxError).toMatchObject({ rule: 'maxChannels', severity: 'error' });
+    });
+
+    it('should report duplicate numbers as warnings with the offending numbers', () => {
+        expect(validateChannels(channels, { uniqueNumbers: true })).toEqual([
+            expect.objectContaining({ rule: 'uniqueNumbers', severity: 'warning', details: ['102'] })
+        ]);
+    });
+
+    it('should report malformed numbers', () => {
+        expect(validateChannels(channels, { numberFormat: /^\d+$/ })).toEqual([
+            expect.objectContaining({ rule: 'numberFormat', severity: 'error', details: ['1O3'] })
+        ]);
+    });
+
+    it('should report changes beyond the limit relative to the previous run', () => {
+        const previous = [
+            { number: '101', name: 'BBC ONE' },
+            { number: '102', name: 'BBC TWO' },
+            { number: '103', name: 'ITV1' },
+            { number: '104', name: 'CHANNEL 4' }
+        ];
+        const current = [
+            { number: '101', name: 'BBC ONE' },
+            { number: '102', name: 'BBC TWO' },
+            { number: '113', name: 'ITV1' }
+        ];
+
+        expect(validateChannels(current, { maxChangePercent: 50 }, previous)).toEqual([]);
+        expect(validateChannels(current, { maxChangePercent: 25 }, previous)).toEqual([
+            expect.objectContaining({
+                rule: 'maxChangePercent',
+                severity: 'warning',
+                message: '50.0% of the lineup changed since the previous run, limit is 25%'
+            })
+        ]);
+        expect(validateChannels(current, { maxChangePercent: 25 })).toEqual([]);
+    });
+
+    it('should apply severity overrides', () => {
+        expect(validateChannels([], { minChannels: 1, severity: { minChannels: 'warning' } })).toEqual([
+            expect.objectContaining({ rule: 'minChannels', severity: 'warning' })
+        ]);
+    });
+});
@@ -5,28 +5,232 @@
  * This file exposes both the library API and CLI functionality.
  */
 
-import { runScraper, type Channel, type ScraperConfig } from './utils/scraper';
-import directvConfig from './scrapers/directv';
-import dishConfig from './scrapers/dish';
-import skyConfig from './scrapers/sky';
-import virginConfig from './scrapers/virgin';
-import { writeResultsToFiles } from './utils/fileUtils';
-import { parseArgs } from './utils/args';
+import fs from 'fs';
+import path from 'path';
+import {
+    runScraper,
+    type Channel,
+    type ScraperConfig,
+    type ScraperSource,
+    type RunScraperOptions,
+    type SnapshotMode
+} from './utils/scraper';
+import { getProvider, listProviders, loadProviderModules } from './utils/registry';
+import { writeManifest, writeResultsToFiles, readPreviousChannels } from './utils/fileUtils';
+import { exportChannels, getExporter } from './utils/exporters';
+import { findUnmatchedChannels } from './utils/catalogue';
+import { diffLineups, formatLineupDiff, loadLineups } from './utils/diff';
+import { validateChannels, type ValidationError } from './utils/validation';
+import type { ProviderEntry } from './utils/registry';
+import { findRegion, selectRegion, splitRegions } from './utils/regions';
+import { createBrowserPool, type BrowserPool } from './utils/browserPool';
+import { runWithConcurrency, type TaskTiming } from './utils/scheduler';
+import {
+    abortable,
+    abortReason,
+    createDeadline,
+    getScrapeStatus,
+    throwIfAborted,
+    ScrapeCancelledError,
+    type ScrapeStatus
+} from './utils/abort';
+import type { DiagnosticsBundle } from './utils/diagnostics';
+import { cacheAge, readCache, writeCache, type CacheEntry } from './utils/cache';
+import { listSources, sourceSnapshotName, withSource } from './utils/sources';
+import { logScrapeEvent, type ScrapeEvent, type ScrapeEventData, type ScrapeEventListener } from './utils/events';
+import { createLogger, defaultLogger, type Logger } from './utils/logger';
+import { createScrapeReport, type ScrapeReport } from './utils/report';
+import { appendHistory, channelNumberHistory, lineupAsOf, readHistory } from './utils/history';
+import { compareLineups, formatComparisonCsv, formatComparisonTable } from './utils/compare';
+import { annotatePlaylist } from './utils/playlist';
+import { createLineupServer as createServerFor, type LineupServer, type LineupServerOptions } from './utils/server';
+import { formatHelp, parseArgs, UsageError, type Args, type Command } from './utils/args';
+import {
+    getProviderSettings,
+    loadConfig,
+    mergeSettings,
+    resolveSettings,
+    validateConfig,
+    type ScrapeChannelsConfig
+} from './utils/config';
 
-export type { Channel };
+export type { Channel, ScraperConfig, ScraperSource, SnapshotMode };
+export {
+    registerProvider,
+    unregisterProvider,
+    getProvider,
+    listProviders,
+    loadProviderModules,
+    type ProviderEntry,
+    type ProviderPlugin,
+    type RegisterOptions
+} from './utils/registry';
+export {
+    registerExporter,
+    getExporter,
+    listExporters,
+    exportChannels,
+    type Exporter
+} from './utils/exporters';
+export {
+    addCanonicalChannels,
+    getCanonicalChannel,
+    listCanonicalChannels,
+    resolveCanonicalId,
+    findUnmatchedChannels,
+    type CanonicalChannel
+} from './utils/catalogue';
+export {
+    normalizeChannelName,
+    createNormalizer,
+    findUnreachableOverrides,
+    NORMALIZATION_STEPS,
+    DEFAULT_NORMALIZATION,
+    type NormalizationStep,
+    type NormalizationStepName,
+    type NormalizationPipeline,
+    type UnreachableOverride
+} from './utils/normalize';
+export {
+    diffLineups,
+    diffChannels,
+    formatLineupDiff,
+    hasChanges,
+    loadLineups,
+    type LineupDiff,
+    type RenamedChannel,
+    type RenumberedChannel
+} from './utils/diff';
+export {
+    compareLineups,
+    formatComparisonTable,
+    formatComparisonCsv,
+    type ComparedChannel,
+    type LineupComparison
+} from './utils/compare';
+export {
+    annotatePlaylist,
+    type AnnotateOptions,
+    type AnnotateResult,
+    type AnnotatedEntry,
+    type UnmatchedEntry
+} from './utils/playlist';
+export {
+    validateChannels,
+    ValidationError,
+    type ValidationRules,
+    type ValidationRule,
+    type ValidationSeverity
+} from './utils/validation';
+export { selectRegion, splitRegions } from './utils/regions';
+export {
+    createTableScraper,
+    loadTableDefinitions,
+    type TableScraperDefinition,
+    type TableRowRule
+} from './utils/tableScraper';
+export { createBrowserPool, type BrowserPool } from './utils/browserPool';
+export {
+    fetchHtml,
+    fromHtml,
+    fromPage,
+    type ExtractionMode,
+    type FetchOptions,
+    type LineupDocument,
+    type RowCells
+} from './utils/document';
+export {
+    ScrapeCancelledError,
+    ScrapeTimeoutError,
+    getScrapeStatus,
+    type ScrapeStatus
+} from './utils/abort';
+export type { DiagnosticsBundle } from './utils/diagnostics';
+export { createHostLimiter, pickUserAgent, type HostLimiter, type RateLimit } from './utils/politeness';
+export { checkRobotsTxt, checkRobotsRules, parseRobotsTxt, type RobotsCheck, type RobotsTxt } from './utils/robots';
+export {
+    loadConfig,
+    validateConfig,
+    CONFIG_FILE_NAME,
+    type ScrapeChannelsConfig,
+    type ScraperSettings,
+    type ProxySettings,
+    type UserAgentRotation,
+    type WaitUntil
+} from './utils/config';
+export type { TaskTiming };
+export { logScrapeEvent, type ScrapeEvent, type ScrapeEventListener } from './utils/events';
+export { createLogger, type Logger, type LoggerOptions, type LogLevel, type LogFormat } from './utils/logger';
+export {
+    createScrapeReport,
+    serializeError,
+    toProviderReport,
+    PACKAGE_VERSION,
+    type ProviderReport,
+    type ScrapeReport,
+    type SerializedError
+} from './utils/report';
+export {
+    appendHistory,
+    readHistory,
+    lineupAsOf,
+    channelNumberHistory,
+    type HistoryRecord,
+    type ChannelNumberSpan,
+    type ChannelHistoryOptions
+} from './utils/history';
+export type { LineupServer, LineupServerOptions, ProviderState, ProviderStatus } from './utils/server';
+export { writeResultsToFiles, writeManifest };
 
 export interface ScrapingOptions {
     writeFiles?: boolean;
+    signal?: AbortSignal;
+    timeout?: number;
+    providerTimeout?: number;
     maxConcurrent?: number;
+    snapshotMode?: SnapshotMode;
+    snapshotDir?: string;
+    previousLineups?: ProviderChannels[];
+    region?: string;
+    splitRegions?: boolean;
+    config?: ScrapeChannelsConfig;
+    maxAge?: number;
+    force?: boolean;
+    onEvent?: ScrapeEventListener;
+    logger?: Logger;
 }
 
 export interface ScraperResult {
     name: string;
     success: boolean;
+    status?: ScrapeStatus;
     duration: number;
     channelCount?: number;
     error?: Error;
     channels?: Channel[];
+    unmatchedChannels?: string[];
+    validationErrors?: ValidationError[];
+    warned?: boolean;
+    regions?: Record<string, Channel[]>;
+    fromCache?: boolean;
+    cachedAt?: string;
+    stale?: boolean;
+    url?: string;
+    scrapedAt?: string;
+    attempts?: number;
+    source?: string;
+    failedSources?: SourceFailure[];
+    diagnostics?: DiagnosticsBundle;
+}
+
+export interface SourceFailure {
+    url: string;
+    error: Error;
+    diagnostics?: DiagnosticsBundle;
+}
+
+export interface ProviderTiming extends TaskTiming {
+    name: string;
 }
 
 export interface ScrapingSummary {
@@ -35,6 +239,11 @@ export interface ScrapingSummary {
     successRate: string;
     totalChannels: number;
     failedScrapers: ScraperResult[];
+    warnedScrapers: ScraperResult[];
+    cancelledScrapers: ScraperResult[];
+    timedOutScrapers: ScraperResult[];
+    timings: ProviderTiming[];
+    report: ScrapeReport;
 }
 
 export interface ProviderChannels {
@@ -42,144 +251,866 @@ export interface ProviderChannels {
     channels: Channel[];
 }
 
-const providers: Record<string, ScraperConfig> = {
-    DIRECTV: directvConfig,
-    DISH: dishConfig,
-    SKY: skyConfig,
-    Virgin: virginConfig
+/**
+ * Builds the runScraper options for a provider from the scraping options.
+ * Snapshots are named after the provider, and the signal is the provider's deadline.
+ */
+const toRunOptions = (name: string, options?: ScrapingOptions, browserPool?: BrowserPool, signal?: AbortSignal): RunScraperOptions => ({
+    snapshotMode: options?.snapshotMode,
+    snapshotDir: options?.snapshotDir,
+    snapshotName: name.toLowerCase(),
+    browserPool,
+    ...(signal && { signal }),
+    ...(options?.config && { settings: options.config })
+});
+
+/**
+ * Applies the configuration's settings for a provider on top of the provider's own settings.
+ */
+const withProviderSettings = (name: string, config: ScraperConfig, options?: ScrapingOptions): ScraperConfig => {
+    const overrides = getProviderSettings(options?.config, name);
+    return overrides ? { ...config, settings: mergeSettings(config.settings, overrides) } : config;
+};
+
+/**
+ * Finds the previous lineup of a provider, from the options or the last written files.
+ */
+const findPreviousChannels = (name: string, options?: ScrapingOptions): Channel[] | undefined => {
+    const previous = options?.previousLineups?.find(lineup => lineup.provider.toLowerCase() === name.toLowerCase());
+    return previous ? previous.channels : readPreviousChannels(name, options?.config?.outputDir);
+};
+
+/**
+ * Resolves the requested region against the regions a provider declares.
+ * Providers without regions always return their national lineup.
+ * @throws Error if the provider declares regions and the requested one is not among them
+ */
+const resolveRegion = (name: string, config: ScraperConfig, region?: string): string | undefined => {
+    if (!region || !config.regions?.length) {
+        return undefined;
+    }
+    const supported = findRegion(config.regions, region);
+    if (!supported) {
+        throw new Error(`Provider "${name}" does not support region "${region}", expected one of: ${config.regions.join(', ')}`);
+    }
+    return supported;
+};
+
+/**
+ * Builds a provider's result from the scraped rows.
+ * Error-severity validation failures mark the result as failed, warnings mark it as warned.
+ */
+const buildResult = (
+    { name, config }: ProviderEntry,
+    allChannels: Channel[],
+    region: string | undefined,
+    start: number,
+    options?: ScrapingOptions
+): ScraperResult => {
+    const channels = selectRegion(allChannels, region);
+    const result: ScraperResult = {
+        name,
+        success: true,
+        duration: Date.now() - start,
+        channelCount: channels.length,
+        channels,
+        unmatchedChannels: findUnmatchedChannels(channels)
+    };
+
+    if (options?.splitRegions && config.regions?.length) {
+        result.regions = splitRegions(allChannels, config.regions);
+    }
+
+    if (config.validation) {
+        const previous = config.validation.maxChangePercent !== undefined
+            ? findPreviousChannels(name, options)
+            : undefined;
+        const validationErrors = validateChannels(channels, config.validation, previous);
+        const failure = validationErrors.find(error => error.severity === 'error');
+        if (validationErrors.length > 0) {
+            result.validationErrors = validationErrors;
+        }
+        if (failure) {
+            result.success = false;
+            result.error = failure;
+        } else if (validationErrors.length > 0) {
+            result.warned = true;
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Scrapes a provider from each of its sources in turn until one returns a valid lineup.
+ * A source that fails to load or whose lineup fails validation moves on to the next one;
+ * the last source's outcome is returned either way, with the failures before it.
+ * Once the run's signal is aborted no further source is tried.
+ * Diagnostics a source saved are kept with its failure, or with the result for the last source.
+ */
+const scrapeSources = async (
+    provider: ProviderEntry,
+    runConfig: ScraperConfig,
+    region: string | undefined,
+    start: number,
+    runOptions: RunScraperOptions,
+    emit: (event: ScrapeEventData) => void,
+    options?: ScrapingOptions
+): Promise<{ result: ScraperResult; allChannels?: Channel[] }> => {
+    const { name } = provider;
+    const sources = listSources(runConfig);
+    const failedSources: SourceFailure[] = [];
+    const withFailures = (result: ScraperResult, source: ScraperSource, diagnostics?: DiagnosticsBundle): ScraperResult => ({
+        ...result,
+        source: source.url,
+        ...(failedSources.length && { failedSources }),
+        ...(diagnostics && { diagnostics })
+    });
+    const { diagnosticsDir } = resolveSettings(runOptions.settings, runConfig.settings);
+    const previousChannels = diagnosticsDir && runConfig.validation?.maxChangePercent !== undefined
+        ? findPreviousChannels(name, options)
+        : undefined;
+
+    for (const [index, source] of sources.entries()) {
+        const last = index === sources.length - 1;
+        const saved: { diagnostics?: DiagnosticsBundle } = {};
+        let error: Error;
+        try {
+            const allChannels = await runScraper(withSource(runConfig, source), {
+                ...runOptions,
+                snapshotName: sourceSnapshotName(runOptions.snapshotName || name.toLowerCase(), index),
+                ...(previousChannels && { previousChannels }),
+                onProgress: progress => {
+                    if (progress.type === 'diagnostics-saved') {
+                        saved.diagnostics = progress.diagnostics;
+                    }
+                    runOptions.onProgress?.(progress);
+                }
+            });
+            const result = buildResult(provider, allChannels, region, start, options);
+            if (result.success || last) {
+                return { result: withFailures(result, source, saved.diagnostics), allChannels };
+            }
+            error = result.error || new Error('Scrape failed');
+        } catch (scrapeError) {
+            const { signal } = runOptions;
+            error = signal?.aborted ? abortReason(signal) : scrapeError as Error;
+            if (last || signal?.aborted) {
+                return { result: withFailures({ name, success: false, duration: Date.now() - start, error }, source, saved.diagnostics) };
+            }
+        }
+        failedSources.push({ url: source.url, error, ...(saved.diagnostics && { diagnostics: saved.diagnostics }) });
+        emit({ type: 'source-failed', url: source.url, error: error.message, next: sources[index + 1].url });
+    }
+    throw new Error(`Provider "${name}" has no sources`);
+};
+
+/**
+ * Background refreshes of stale cached lineups, by provider, so each is refreshed once at a time.
+ */
+const revalidating = new Map<string, Promise<void>>();
+
+/**
+ * Scrapes a provider in the background and caches the lineup if it is valid.
+ * Runs in its own browser, as a shared pool may be closed before it finishes.
+ */
+const revalidate = (provider: ProviderEntry, cacheDir: string, options?: ScrapingOptions): void => {
+    const key = provider.name.toLowerCase();
+    if (revalidating.has(key)) return;
+
+    const runConfig = withProviderSettings(provider.name, provider.config, options);
+    const runOptions = { ...toRunOptions(provider.name, options), includeAllRegions: true };
+    const refresh = scrapeSources(provider, runConfig, undefined, Date.now(), runOptions, () => undefined, options)
+        .then(({ result, allChannels }) => {
+            if (result.success && allChannels) {
+                writeCache(cacheDir, provider.name, allChannels);
+            }
+        })
+        .catch(() => undefined)
+        .finally(() => revalidating.delete(key));
+    revalidating.set(key, refresh);
+};
+
+/**
+ * Runs and validates a single provider's scraper, going through the result cache when it is enabled.
+ * A fresh cached lineup is returned without scraping, a stale one within the staleWhileRevalidate
+ * window is returned while a background scrape refreshes it, and a failed scrape falls back to it.
+ * A cancelled or timed-out scrape does not fall back, so it is reported as such.
+ */
+const scrapeWithCache = async (
+    provider: ProviderEntry,
+    start: number,
+    emit: (event: ScrapeEventData) => void,
+    options?: ScrapingOptions,
+    browserPool?: BrowserPool,
+    signal?: AbortSignal
+): Promise<ScraperResult> => {
+    const { name, config } = provider;
+    try {
+        const region = resolveRegion(name, config, options?.region);
+        const runConfig = withProviderSettings(name, config, options);
+        const cacheSettings = resolveSettings(options?.config, runConfig.settings).cache;
+        const useCache = !options?.snapshotMode && (cacheSettings.ttl !== undefined || options?.maxAge !== undefined);
+        const cached = useCache ? readCache(cacheSettings.dir, name) : undefined;
+        const fromCache = (entry: CacheEntry, extra: Partial<ScraperResult>): ScraperResult => ({
+            ...buildResult(provider, entry.channels, region, start, options),
+            fromCache: true,
+            cachedAt: entry.cachedAt,
+            ...extra
+        });
+
+        if (cached && !options?.force) {
+            const age = cacheAge(cached);
+            const maxAge = options?.maxAge ?? cacheSettings.ttl ?? 0;
+            if (age <= maxAge) {
+                return fromCache(cached, {});
+            }
+            if (age <= maxAge + cacheSettings.staleWhileRevalidate) {
+                revalidate(provider, cacheSettings.dir, options);
+                return fromCache(cached, { stale: true });
+            }
+        }
+
+        const { result, allChannels } = await scrapeSources(
+            provider,
+            runConfig,
+            region,
+            start,
+            { ...toRunOptions(name, options, browserPool, signal), region, includeAllRegions: true, onProgress: emit },
+            emit,
+            options
+        );
+        if (useCache && result.success && allChannels) {
+            writeCache(cacheSettings.dir, name, allChannels);
+        } else if (cached && !result.success && !signal?.aborted) {
+            return fromCache(cached, {
+                stale: true,
+                warned: true,
+                error: result.error,
+                validationErrors: result.validationErrors,
+                ...(result.failedSources && { failedSources: result.failedSources }),
+                ...(result.diagnostics && { diagnostics: result.diagnostics })
+            });
+        }
+        return result;
+    } catch (error) {
+        return {
+            name,
+            success: false,
+            duration: Date.now() - start,
+            error: error as Error
+        };
+    }
+};
+
+/**
+ * Appends a freshly scraped lineup to the provider's history file, when one is configured.
+ * Cached lineups were recorded when they were scraped. A failed write is logged, not thrown.
+ */
+const recordHistory = (provider: ProviderEntry, result: ScraperResult, logger: Logger, options?: ScrapingOptions): void => {
+    const { historyFile } = resolveSettings(options?.config, withProviderSettings(provider.name, provider.config, options).settings);
+    if (!historyFile || !result.success || result.fromCache || !result.channels || !result.scrapedAt) {
+        return;
+    }
+    // Providers without regions return their national lineup whatever the region asked for
+    const region = options?.region ? findRegion(provider.config.regions || [], options.region) : undefined;
+    try {
+        appendHistory(historyFile, {
+            provider: provider.name,
+            scrapedAt: result.scrapedAt,
+            ...(result.source && { source: result.source }),
+            ...(region && { region }),
+            channels: result.channels
+        });
+    } catch (error) {
+        logger.error(`${provider.name}: could not record history: ${(error as Error).message}`, { provider: provider.name });
+    }
+};
+
+/**
+ * Runs a single provider, reporting its progress to the options' event listener and logger.
+ * The provider stops when the signal is aborted or its providerTimeout passes, and is then
+ * reported as cancelled or timed out; a provider whose turn comes after that does not start.
+ */
+const runProvider = async (
+    provider: ProviderEntry,
+    options?: ScrapingOptions,
+    browserPool?: BrowserPool,
+    signal: AbortSignal | undefined = options?.signal
+): Promise<ScraperResult> => {
+    const start = Date.now();
+    const logger = options?.logger || defaultLogger;
+    let attempts = 0;
+    const emit = (data: ScrapeEventData) => {
+        if (data.type === 'navigated' || data.type === 'retry-scheduled') {
+            attempts++;
+        }
+        const event = { ...data, provider: provider.name, timestamp: Date.now() } as ScrapeEvent;
+        logScrapeEvent(logger, event);
+        try {
+            options?.onEvent?.(event);
+        } catch (error) {
+            logger.error(`Event listener failed: ${(error as Error).message}`, { provider: provider.name });
+        }
+    };
+
+    emit({ type: 'started', url: provider.config.url });
+    const deadline = createDeadline(signal, options?.providerTimeout, `${provider.name} scrape`);
+    let scraped: ScraperResult;
+    try {
+        throwIfAborted(deadline.signal);
+        // A scraper that ignores the signal is not waited for
+        scraped = await abortable(scrapeWithCache(provider, start, emit, options, browserPool, deadline.signal), deadline.signal);
+    } catch (error) {
+        scraped = { name: provider.name, success: false, duration: Date.now() - start, error: error as Error };
+    } finally {
+        deadline.dispose();
+    }
+    const result: ScraperResult = {
+        ...scraped,
+        status: getScrapeStatus(scraped.success, scraped.error),
+        url: provider.config.url,
+        attempts
+    };
+    result.scrapedAt = result.fromCache && result.cachedAt ? result.cachedAt : new Date(start).toISOString();
+    recordHistory(provider, result, logger, options);
+    if (result.success) {
+        emit({
+            type: 'finished',
+            channelCount: result.channelCount || 0,
+            duration: result.duration,
+            fromCache: !!result.fromCache,
+            warned: !!result.warned
+        });
+    } else {
+        emit({
+            type: 'failed',
+            duration: result.duration,
+            error: result.error?.message || 'Scrape failed',
+            status: result.status as Exclude<ScrapeStatus, 'succeeded'>
+        });
+    }
+    return result;
 };
 
 /**
  * Scrapes channel listings from all configured providers.
+ * With writeFiles, each lineup is written as JSON to the configured output directory with a manifest.json of the report.
  * @param options Optional configuration for the scraping process
- * @returns Promise resolving to either an array of provider channels or a summary object
+ * @returns Promise resolving to a summary of every provider, failed ones included
  */
-export async function scrapeAllProviders(options?: ScrapingOptions): Promise<ProviderChannels[] | ScrapingSummary> {
+export async function scrapeAllProviders(options?: ScrapingOptions): Promise<ScrapingSummary> {
     const startTime = Date.now();
-    const results: ScraperResult[] = [];
     const maxConcurrent = options?.maxConcurrent || 4;
+    if (options?.config) {
+        validateConfig(options.config, 'options.config');
+    }
 
-    // Process providers in batches to control concurrency
-    const providerEntries = Object.entries(providers);
-    for (let i = 0; i < providerEntries.length; i += maxConcurrent) {
-        const batch = providerEntries.slice(i, i + maxConcurrent);
-        const batchResults = await Promise.all(
-            batch.map(async ([name, config]) => {
-                const start = Date.now();
-                try {
-                    const channels = await runScraper(config);
-                    return {
-                        name,
-                        success: true,
-                        duration: Date.now() - start,
-                        channelCount: channels.length,
-                        channels
-                    };
-                } catch (error) {
-                    return {
-                        name,
-                        success: false,
-                        duration: Date.now() - start,
-                        error: error as Error
-                    };
-                }
-            })
+    // Providers share one browser, and the next provider starts as soon as a slot frees up
+    const providerEntries = listProviders();
+    const browserPool = createBrowserPool({ headless: resolveSettings(options?.config).headless });
+    // Cancelling the run or passing its deadline closes the shared browser straight away
+    const deadline = createDeadline(options?.signal, options?.timeout, 'Scrape run');
+    const closePool = () => {
+        browserPool.close().catch(() => undefined);
+    };
+    deadline.signal.addEventListener('abort', closePool, { once: true });
+    let scheduled: { results: ScraperResult[]; timings: TaskTiming[] };
+    try {
+        scheduled = await runWithConcurrency(
+            providerEntries,
+            maxConcurrent,
+            provider => runProvider(provider, options, browserPool, deadline.signal)
         );
-        results.push(...batchResults);
+    } finally {
+        deadline.signal.removeEventListener('abort', closePool);
+        deadline.dispose();
+        await browserPool.close();
     }
+    const { results } = scheduled;
+    const timings = scheduled.timings.map((timing, i) => ({ name: providerEntries[i].name, ...timing }));
 
-    const totalDuration = Date.now() - startTime;
-    const failedScrapers = results.filter(r => !r.success);
-    const successRate = `${((results.length - failedScrapers.length) / results.length * 100).toFixed(1)}%`;
-    const totalChannels = results.reduce((sum, r) => sum + (r.channelCount || 0), 0);
+    const report = createScrapeReport(results, startTime);
 
     if (options?.writeFiles) {
-        return {
-            results,
-            totalDuration,
-            successRate,
-            totalChannels,
-            failedScrapers
-        };
+        const { outputDir } = resolveSettings(options.config);
+        writeResultsToFiles(results, ['json'], outputDir);
+        writeManifest(report, outputDir);
     }
 
-    // Transform results into ProviderChannels array
-    return results
-        .filter(result => result.success && result.channels)
-        .map(result => ({
-            provider: result.name,
-            channels: result.channels!
-        }));
+    return {
+        results,
+        totalDuration: report.totalDuration,
+        successRate: report.successRate,
+        totalChannels: report.totalChannels,
+        failedScrapers: results.filter(r => !r.success),
+        warnedScrapers: results.filter(r => r.warned),
+        cancelledScrapers: results.filter(r => r.status === 'cancelled'),
+        timedOutScrapers: results.filter(r => r.status === 'timed-out'),
+        timings,
+        report
+    };
 }
 
+/**
+ * Lineups of the successful results, in the shape the exporters take.
+ */
+const toProviderChannels = (results: ScraperResult[]): ProviderChannels[] => results
+    .flatMap(result => result.success && result.channels ? [{ provider: result.name, channels: result.channels }] : []);
+
 /**
  * Scrapes channel listings from a specific provider.
- * @param providerName Name of the provider to scrape
+ * @param providerName Name of the provider to scrape, matched case-insensitively
  * @param options Optional configuration for the scraping process
  * @returns Promise resolving to a ScraperResult object
- * @throws Error if provider is not found
+ * @throws Error if provider is not found or options.config is invalid
  */
 export async function scrapeProvider(providerName: string, options?: ScrapingOptions): Promise<ScraperResult> {
-    const config = providers[providerName];
-    if (!config) {
+    const provider = getProvider(providerName);
+    if (!provider) {
         throw new Error(`Provider "${providerName}" not found`);
     }
+    if (options?.config) {
+        validateConfig(options.config, 'options.config');
+    }
 
-    const start = Date.now();
+    const deadline = createDeadline(options?.signal, options?.timeout, 'Scrape run');
     try {
-        const channels = await runScraper(config);
-        return {
-            name: providerName,
-            success: true,
-            duration: Date.now() - start,
-            channelCount: channels.length,
-            channels
-        };
+        return await runProvider(provider, options, undefined, deadline.signal);
+    } finally {
+        deadline.dispose();
+    }
+}
+
+/**
+ * Creates the CLI's logger, writing at --log-level and --log-format to stderr.
+ */
+const createCliLogger = (args: Args): Logger => createLogger({ level: args.logLevel, format: args.logFormat });
+
+/**
+ * Loads provider modules given with --plugin, one after another, logging their warnings.
+ */
+const loadPlugins = (args: Args, logger: Logger = createCliLogger(args)): Promise<unknown> => args.plugins.reduce<Promise<unknown>>(
+    (loading, pluginPath) => loading.then(() => loadProviderModules(pluginPath, { logger })),
+    Promise.resolve()
+);
+
+/**
+ * Runs the list-providers command, printing every registered provider.
+ */
+const runListProvidersCommand = (args: Args): void => {
+    loadPlugins(args)
+        .then(() => {
+            const providers = listProviders().map(({ name, config }) => ({
+                name,
+                url: config.url,
+                ...(config.regions?.length && { regions: config.regions })
+            }));
+            if (args.json) {
+                console.log(JSON.stringify(providers, null, 2));
+                return;
+            }
+            const width = Math.max(...providers.map(provider => provider.name.length)) + 2;
+            providers.forEach(provider => {
+                const regions = provider.regions ? ` (regions: ${provider.regions.join(', ')})` : '';
+                console.log(`${provider.name.padEnd(width)}${provider.url}${regions}`);
+            });
+        })
+        .catch(error => {
+            console.error('Error loading provider modules:', error);
+            process.exit(1);
+        });
+};
+
+/**
+ * Runs the export command, converting a saved run to another format.
+ */
+const runExportCommand = (args: Args): void => {
+    try {
+        if (args.formats.length > 1) {
+            throw new Error('Only one --format can be exported at a time');
+        }
+        getExporter(args.formats[0]);
+
+        let lineups = loadLineups(args.positionals[0]);
+        const provider = args.provider?.toLowerCase();
+        if (provider) {
+            lineups = lineups.filter(lineup => lineup.provider.toLowerCase() === provider);
+            if (lineups.length === 0) {
+                throw new Error(`Provider "${args.provider}" not found in ${args.positionals[0]}`);
+            }
+        }
+
+        const output = exportChannels(lineups, args.formats[0]);
+        if (args.output) {
+            fs.writeFileSync(args.output, output);
+        } else {
+            console.log(output);
+        }
     } catch (error) {
-        return {
-            name: providerName,
-            success: false,
-            duration: Date.now() - start,
-            error: error as Error
-        };
+        console.error('Error exporting lineups:', (error as Error).message);
+        process.exit(1);
     }
+};
+
+/**
+ * Runs the validate command, checking a saved run against the registered providers' rules.
+ * Exits with an error when any provider has an error-severity violation.
+ */
+const runValidateCommand = (args: Args): void => {
+    loadPlugins(args)
+        .then(() => {
+            const lineups = loadLineups(args.positionals[0]);
+            const previousLineups = args.previous ? loadLineups(args.previous) : [];
+            const reports = lineups.map(({ provider, channels }) => {
+                const config = getProvider(provider)?.config;
+                if (!config?.validation) {
+                    return { provider, channelCount: channels.length, skipped: true, errors: [] };
+                }
+                const previous = previousLineups.find(lineup => lineup.provider.toLowerCase() === provider.toLowerCase());
+                const errors = validateChannels(channels, config.validation, previous?.channels)
+                    .map(({ rule, severity, message, details }) => ({ rule, severity, message, ...(details && { details }) }));
+                return { provider, channelCount: channels.length, skipped: false, errors };
+            });
+
+            if (args.json) {
+                console.log(JSON.stringify(reports, null, 2));
+            } else {
+                reports.forEach(report => {
+                    if (report.skipped) {
+                        console.log(`${report.provider}: skipped, no registered provider with validation rules`);
+                    } else if (report.errors.length === 0) {
+                        console.log(`${report.provider}: ok (${report.channelCount} channels)`);
+                    } else {
+                        console.log(`${report.provider}:`);
+                        report.errors.forEach(error => console.log(`  ${error.severity} ${error.rule}: ${error.message}`));
+                    }
+                });
+            }
+
+            if (reports.some(report => report.errors.some(error => error.severity === 'error'))) {
+                process.exit(1);
+            }
+        })
+        .catch(error => {
+            console.error('Error validating lineups:', (error as Error).message);
+            process.exit(1);
+        });
+};
+
+/**
+ * Creates an HTTP server serving the registered providers' lineups, scraped with scrapeProvider.
+ * @param options Optional scraping options and directory for the last good lineups
+ * @returns The server, started with listen()
+ */
+export function createLineupServer(options?: LineupServerOptions): LineupServer {
+    return createServerFor(scrapeProvider, options);
 }
 
-// CLI functionality
-if (require.main === module) {
-    const args = parseArgs();
+/**
+ * Runs the diff command, comparing two scrape runs given as files or directories.
+ */
+const runDiffCommand = (args: Args): void => {
+    const [beforePath, afterPath] = args.positionals;
+
+    try {
+        const diffs = diffLineups(loadLineups(beforePath), loadLineups(afterPath));
+        console.log(args.json ? JSON.stringify(diffs, null, 2) : formatLineupDiff(diffs));
+    } catch (error) {
+        console.error('Error comparing lineups:', (error as Error).message);
+        process.exit(1);
+    }
+};
+
+/**
+ * Runs the compare command, comparing the providers of a saved run side by side.
+ */
+const runCompareCommand = (args: Args): void => {
+    const [target, ...providers] = args.positionals;
+
+    try {
+        let lineups = loadLineups(target);
+        if (providers.length) {
+            lineups = providers.map(provider => {
+                const lineup = lineups.find(candidate => candidate.provider.toLowerCase() === provider.toLowerCase());
+                if (!lineup) {
+                    throw new Error(`Provider "${provider}" not found in ${target}`);
+                }
+                return lineup;
+            });
+        }
+
+        const comparison = compareLineups(lineups);
+        const output = args.json
+            ? JSON.stringify(comparison, null, 2)
+            : args.csv ? formatComparisonCsv(comparison) : formatComparisonTable(comparison);
+        if (args.output) {
+            fs.writeFileSync(args.output, output);
+        } else {
+            console.log(output);
+        }
+    } catch (error) {
+        console.error('Error comparing providers:', (error as Error).message);
+        process.exit(1);
+    }
+};
+
+/**
+ * Loads the lineup to annotate a playlist with: a provider's lineup from a saved run,
+ * or a fresh scrape of the provider when no run is given.
+ */
+const loadAnnotationLineup = async (args: Args, lineupPath?: string): Promise<ProviderChannels> => {
+    if (!lineupPath) {
+        if (!args.provider) {
+            throw new Error('Give a saved run to read the lineup from, or a --provider to scrape');
+        }
+        const logger = createCliLogger(args);
+        await loadPlugins(args, logger);
+        const result = await scrapeProvider(args.provider, { config: loadConfig(args.config), logger });
+        if (!result.success || !result.channels) {
+            throw new Error(`Failed to scrape ${args.provider}: ${result.error?.message || 'no channels'}`);
+        }
+        return { provider: result.name, channels: result.channels };
+    }
+
+    const lineups = loadLineups(lineupPath);
+    const provider = args.provider?.toLowerCase();
+    if (provider) {
+        const lineup = lineups.find(candidate => candidate.provider.toLowerCase() === provider);
+        if (!lineup) {
+            throw new Error(`Provider "${args.provider}" not found in ${lineupPath}`);
+        }
+        return lineup;
+    }
+    if (lineups.length !== 1) {
+        throw new Error(`${lineupPath} holds ${lineups.length} lineups, choose one with --provider`);
+    }
+    return lineups[0];
+};
+
+/**
+ * Runs the annotate command, writing a provider's channel numbers into an M3U playlist.
+ * The playlist goes to --output or stdout, and the report of matched and unmatched entries
+ * to stdout when the playlist is written to a file, stderr otherwise.
+ */
+const runAnnotateCommand = (args: Args): void => {
+    const [playlistPath, lineupPath] = args.positionals;
+
+    loadAnnotationLineup(args, lineupPath)
+        .then(lineup => {
+            const result = annotatePlaylist(fs.readFileSync(playlistPath, 'utf8'), lineup.channels, { sort: args.sort });
+            const { playlist, ...report } = result;
+            const reportText = args.json
+                ? JSON.stringify({ provider: lineup.provider, ...report }, null, 2)
+                : [
+                    `Matched ${report.matched.length} of ${report.entries} entries against ${lineup.provider}`,
+                    ...report.unmatched.map(entry => `  unmatched, line ${entry.line}: ${entry.name}${entry.title ? ` (${entry.title})` : ''}`)
+                ].join('\n');
+
+            if (args.output) {
+                fs.writeFileSync(args.output, playlist);
+                console.log(reportText);
+            } else {
+                process.stdout.write(playlist);
+                console.error(reportText);
+            }
+        })
+        .catch(error => {
+            console.error('Error annotating playlist:', (error as Error).message);
+            process.exit(1);
+        });
+};
+
+/**
+ * Runs the history command: the recorded scrapes of a provider, its lineup at a date,
+ * or the numbers a channel has been listed under.
+ */
+const runHistoryCommand = (args: Args): void => {
+    const [provider] = args.positionals;
+    try {
+        const file = args.historyFile ? path.resolve(args.historyFile) : loadConfig(args.config).historyFile;
+        if (!file) {
+            throw new Error('No history file, set historyFile in the configuration or pass --history-file');
+        }
+        if (!provider && args.channel === undefined) {
+            throw new Error('A provider is required unless --channel is given');
+        }
+
+        if (args.at !== undefined) {
+            getExporter(args.formats[0]);
+            const record = lineupAsOf(file, provider, args.at, args.region);
+            if (!record) {
+                throw new Error(`No ${provider}${args.region ? ` ${args.region}` : ''} lineup recorded at or before ${args.at}`);
+            }
+            console.log(exportChannels([{ provider: record.provider, channels: record.channels }], args.formats[0]));
+        } else if (args.channel !== undefined) {
+            const spans = channelNumberHistory(file, args.channel, { provider, region: args.region });
+            if (args.json) {
+                console.log(JSON.stringify(spans, null, 2));
+            } else if (spans.length === 0) {
+                console.log(`${args.channel} is not listed in the recorded lineups`);
+            } else {
+                const width = Math.max(...spans.map(span => span.provider.length)) + 2;
+                const numberWidth = Math.max(...spans.map(span => span.number.length)) + 2;
+                spans.forEach(span => console.log(
+                    `${span.provider.padEnd(width)}${span.number.padEnd(numberWidth)}${span.name}  ${span.from} to ${span.to}`
+                ));
+            }
+        } else {
+            const records = readHistory(file, provider).map(record => ({
+                provider: record.provider,
+                scrapedAt: record.scrapedAt,
+                ...(record.region && { region: record.region }),
+                ...(record.source && { source: record.source }),
+                channelCount: record.channels.length
+            }));
+            if (args.json) {
+                console.log(JSON.stringify(records, null, 2));
+            } else {
+                records.forEach(record => console.log(
+                    `${record.scrapedAt}  ${record.channelCount} channels${record.region ? ` (${record.region})` : ''}`
+                ));
+            }
+        }
+    } catch (error) {
+        console.error('Error reading history:', (error as Error).message);
+        process.exit(1);
+    }
+};
+
+/**
+ * Runs the serve command, serving lineups over HTTP until interrupted.
+ */
+const runServeCommand = (args: Args): void => {
+    let config: ScrapeChannelsConfig;
+    try {
+        config = loadConfig(args.config);
+    } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+    }
+
+    const logger = createCliLogger(args);
+    const server = createLineupServer({
+        scrapingOptions: {
+            config,
+            snapshotMode: args.snapshotMode,
+            snapshotDir: args.snapshotDir,
+            logger
+        },
+        outputDir: config.outputDir
+    });
+
+    loadPlugins(args, logger)
+        .then(() => server.listen(args.port, args.host))
+        .then(address => {
+            console.log(`Serving lineups on http://${args.host || 'localhost'}:${address.port}/providers`);
+            process.once('SIGINT', () => {
+                server.close().finally(() => process.exit(0));
+            });
+        })
+        .catch(error => {
+            console.error('Error starting server:', error);
+            process.exit(1);
+        });
+};
+
+/**
+ * Runs the default scrape command for one or all providers.
+ */
+const runScrapeCommand = (args: Args): void => {
+    let config: ScrapeChannelsConfig;
+    try {
+        config = loadConfig(args.config);
+    } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+    }
+
+    // Ctrl-C cancels the run, so the providers that finished are still written and reported
+    const controller = new AbortController();
+    const onSigint = () => controller.abort(new ScrapeCancelledError('Scrape was interrupted'));
+    process.on('SIGINT', onSigint);
+    const finish = () => {
+        process.removeListener('SIGINT', onSigint);
+        if (controller.signal.aborted) {
+            process.exitCode = 130;
+        }
+    };
+
+    // Files are written here rather than by the library, in every requested format
     const options: ScrapingOptions = {
-        writeFiles: args.writeFiles,
-        maxConcurrent: args.maxConcurrent
+        signal: controller.signal,
+        timeout: args.timeout,
+        providerTimeout: args.providerTimeout,
+        maxConcurrent: args.maxConcurrent,
+        snapshotMode: args.snapshotMode,
+        snapshotDir: args.snapshotDir,
+        region: args.region,
+        splitRegions: args.splitRegions,
+        config: {
+            ...config,
+            ...(args.historyFile && { historyFile: path.resolve(args.historyFile) }),
+            ...(args.diagnosticsDir && { diagnosticsDir: path.resolve(args.diagnosticsDir) })
+        },
+        maxAge: args.maxAge,
+        force: args.force,
+        logger: createCliLogger(args)
     };
 
-    if (args.provider) {
+    try {
+        args.formats.forEach(getExporter);
+        if (!args.writeFiles && args.formats.length > 1) {
+            throw new Error('Multiple formats can only be written with --write-files');
+        }
+    } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+    }
+
+    // Register external providers before scraping
+    const pluginsLoaded = loadPlugins(args, options.logger).catch(error => {
+        console.error('Error loading provider modules:', error);
+        process.exit(1);
+    });
+
+    const { provider } = args;
+    if (provider) {
         // Scrape specific provider
-        scrapeProvider(args.provider, options)
+        const startTime = Date.now();
+        pluginsLoaded
+            .then(() => scrapeProvider(provider, options))
             .then(result => {
+                finish();
+                if (args.writeFiles) {
+                    writeResultsToFiles([result], args.formats, config.outputDir);
+                    writeManifest(createScrapeReport([result], startTime), config.outputDir);
+                }
                 if (result.success && result.channels) {
-                    if (args.writeFiles) {
-                        writeResultsToFiles([result]);
-                    } else {
-                        console.log(JSON.stringify(result.channels, null, 2));
+                    if (!args.writeFiles) {
+                        console.log(exportChannels([{ provider: result.name, channels: result.channels }], args.formats[0]));
                     }
                 } else {
-                    console.error(`Failed to scrape ${args.provider}:`, result.error);
+                    console.error(`Failed to scrape ${provider}: ${result.error?.message || 'no channels'}`);
                     process.exit(1);
                 }
             })
             .catch(error => {
-                console.error(`Error scraping ${args.provider}:`, error);
+                console.error(`Error scraping ${provider}:`, error);
                 process.exit(1);
             });
     } else {
         // Scrape all providers
-        scrapeAllProviders(options)
-            .then(results => {
+        pluginsLoaded
+            .then(() => scrapeAllProviders(options))
+            .then(summary => {
+                finish();
                 if (args.writeFiles) {
-                    writeResultsToFiles((results as ScrapingSummary).results);
+                    writeResultsToFiles(summary.results, args.formats, config.outputDir);
+                    writeManifest(summary.report, config.outputDir);
+                    console.log(JSON.stringify(summary.report, null, 2));
                 } else {
-                    console.log(JSON.stringify(results, null, 2));
+                    console.log(exportChannels(toProviderChannels(summary.results), args.formats[0]));
                 }
             })
             .catch(error => {
@@ -187,4 +1118,37 @@ if (require.main === module) {
                 process.exit(1);
             });
     }
-} 
\ No newline at end of file
+};
+
+const COMMANDS: Record<Exclude<Command, 'help'>, (args: Args) => void> = {
+    'list-providers': runListProvidersCommand,
+    'scrape': runScrapeCommand,
+    'export': runExportCommand,
+    'validate': runValidateCommand,
+    'diff': runDiffCommand,
+    'compare': runCompareCommand,
+    'annotate': runAnnotateCommand,
+    'history': runHistoryCommand,
+    'serve': runServeCommand
+};
+
+// CLI functionality
+if (require.main === module) {
+    let args: Args;
+    try {
+        args = parseArgs();
+    } catch (error) {
+        if (!(error instanceof UsageError)) throw error;
+        console.error(error.message);
+        console.error(`Run "scrape-channel-listings ${error.command ? `${error.command} ` : ''}--help" for usage.`);
+        process.exit(1);
+    }
+
+    if (args.command === 'help') {
+        console.log(formatHelp(args.positionals[0] as Command | undefined));
+    } else if (args.help) {
+        console.log(formatHelp(args.command));
+    } else {
+        COMMANDS[args.command](args);
+    }
+}
@@ -3,39 +3,9 @@
  * Extracts channel numbers and names from DIRECTV's channel lineup
  */
 
-import { runScraper, runScraperCLI, type ScraperConfig, type Channel } from '../utils/scraper';
-import type { Page } from 'playwright';
-
-/**
- * Extracts channel information from the DIRECTV channel listing page
- * @param page - Playwright page instance
- * @returns Array of partial channel objects containing number and name
- */
-const scrapeFunction = async (page: Page): Promise<Partial<Channel>[]> => {
-    return await page.$$eval('table tr', (rows) => {
-        // Skip header row and process each channel row
-        return rows.slice(1).map((row) => {
-            let number = row.querySelector('td:nth-child(2)')?.textContent?.trim() || '';
-            const name = row.querySelector('td:nth-child(1)')?.textContent?.trim() || '';
-
-            // Handle timeshift channels, they use the same number but the website displays the timeshift with them.
-            if (number.includes('-')) {
-                number = number.split('-')[0];
-            }
-
-            // Handle channels with commas, these have multiple numbers but we only want the first one.
-            if (number.includes(',')) {
-                number = number.split(',')[0];
-            }
-
-            if (!name || !number) {
-                return {};
-            }
-
-            return { number, name };
-        });
-    });
-};
+import { runScraperCLI, type ScraperConfig } from '../utils/scraper';
+import { createTableScraper, type TableScraperDefinition } from '../utils/tableScraper';
+import type { ValidationRules } from '../utils/validation';
 
 /**
  * Channel name overrides to standardize naming across providers
@@ -48,18 +18,43 @@ const overrides: Record<string, string> = {
 };
 
 /**
- * DIRECTV scraper configuration
+ * Sanity checks for the scraped lineup
  */
-const config: ScraperConfig = {
+const validation: ValidationRules = {
+    minChannels: 1,
+    uniqueNumbers: true,
+    numberFormat: /^\d+$/,
+    maxChangePercent: 25
+};
+
+/**
+ * DIRECTV table definition
+ * Describes the layout of the channel listing page
+ */
+export const definition: TableScraperDefinition = {
+    name: 'DIRECTV',
     url: 'https://www.usdirect.com/channels',
-    scrapeFunction,
+    rowSelector: 'table tr',
+    // Skip header row
+    skipRows: 1,
+    columns: { number: 'td:nth-child(2)', name: 'td:nth-child(1)' },
+    // Channels with commas have multiple numbers, and timeshift channels use the same number but the
+    // website displays the timeshift with them (e.g. 501-1). The first number without its timeshift suffix is
+    // the channel's number, and the other listed numbers, timeshift feeds such as 501-1 included, become altNumbers.
+    numbers: { separator: ',', timeshiftSeparator: '-' },
     overrides,
-    outputFile: 'directv.json'
+    outputFile: 'directv.json',
+    validation
 };
 
+/**
+ * DIRECTV scraper configuration
+ */
+const config: ScraperConfig = createTableScraper(definition);
+
 // Run scraper if this file is executed directly
 if (require.main === module) {
     runScraperCLI(config).catch(() => process.exit(1));
 }
 
-export default config; 
\ No newline at end of file
+export default config;
\ No newline at end of file
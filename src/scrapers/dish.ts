@@ -3,49 +3,53 @@
  * Extracts channel numbers and names from DISH's channel lineup
  */
 
-import { runScraper, runScraperCLI, type ScraperConfig, type Channel } from '../utils/scraper';
-import type { Page } from 'playwright';
+import { runScraperCLI, type ScraperConfig } from '../utils/scraper';
+import { createTableScraper, type TableScraperDefinition } from '../utils/tableScraper';
+import type { ValidationRules } from '../utils/validation';
 
 /**
- * Extracts channel information from the DISH channel listing page
- * @param page - Playwright page instance
- * @returns Array of partial channel objects containing number and name
+ * Channel name overrides to standardize naming across providers
  */
-const scrapeFunction = async (page: Page): Promise<Partial<Channel>[]> => {
-    return await page.$$eval('#dish-channel-guide tbody tr', (rows) => {
-        return rows.map((row) => {
-            const number = row.querySelector('td.column-2')?.textContent?.trim() || '';
-            const name = row.querySelector('td.column-1')?.textContent?.trim() || '';
-
-            if (!name || number.includes('-')) {
-                return {};
-            }
-
-            return { number, name };
-        });
-    });
+const overrides: Record<string, string> = {
+    'NICK': 'NICKELODEON'
 };
 
 /**
- * Channel name overrides to standardize naming across providers
+ * Sanity checks for the scraped lineup
  */
-const overrides: Record<string, string> = {
-    'NICK': 'NICKELODEON'
+const validation: ValidationRules = {
+    minChannels: 1,
+    uniqueNumbers: true,
+    numberFormat: /^\d+$/,
+    maxChangePercent: 25
 };
 
 /**
- * DISH Network scraper configuration
+ * DISH Network table definition
+ * Describes the layout of the channel listing page
  */
-const config: ScraperConfig = {
+export const definition: TableScraperDefinition = {
+    name: 'DISH',
     url: 'https://www.allconnect.com/providers/dish/channel-guide',
-    scrapeFunction,
+    // Server-rendered table, fetched and parsed without a browser
+    mode: 'http',
+    rowSelector: '#dish-channel-guide tbody tr',
+    columns: { number: 'td.column-2', name: 'td.column-1' },
+    // Skip number ranges
+    skip: [{ column: 'number', contains: '-' }],
     overrides,
-    outputFile: 'dish.json'
+    outputFile: 'dish.json',
+    validation
 };
 
+/**
+ * DISH Network scraper configuration
+ */
+const config: ScraperConfig = createTableScraper(definition);
+
 // Run scraper if this file is executed directly
 if (require.main === module) {
     runScraperCLI(config).catch(() => process.exit(1));
 }
 
-export default config; 
\ No newline at end of file
+export default config;
\ No newline at end of file
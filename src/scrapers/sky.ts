@@ -3,55 +3,62 @@
  * Extracts channel numbers and names from Sky's channel lineup
  */
 
-import { runScraper, runScraperCLI, type ScraperConfig, type Channel } from '../utils/scraper';
-import type { Page } from 'playwright';
-
-/**
- * Extracts channel information from the Sky channel listing page
- * @param page - Playwright page instance
- * @returns Array of partial channel objects containing number and name
- */
-const scrapeFunction = async (page: Page): Promise<Partial<Channel>[]> => {
-    return await page.$$eval('table tbody tr', (rows) => {
-        return rows.map((row) => {
-            const number = row.querySelector('.column-1')?.textContent?.trim() || '';
-            const name = row.querySelector('.column-2')?.textContent?.trim() || '';
-
-            // Skip those with dashes in numbers as these are category definitions
-            if (!name || !number || number.includes('-')) {
-                return {};
-            }
-
-            return { number, name };
-        });
-    });
-};
+import { runScraperCLI, type ScraperConfig } from '../utils/scraper';
+import { createTableScraper, type TableScraperDefinition } from '../utils/tableScraper';
+import type { ValidationRules } from '../utils/validation';
 
 /**
  * Channel name overrides to standardize naming across providers
+ * Keys are normalized names, e.g. "DISC SCIENCE" for "Disc. Science"
  */
 const overrides: Record<string, string> = {
-    'DISC. SCIENCE': 'Discovery Science',
-    'DISC. TURBO': 'Discovery Turbo',
-    'SKY CINEMA SCI-FI/HORROR': 'SKY CINEMA SCFI/HORROR',
-    'RTÉjr': 'RTE Junior',
+    'DISC SCIENCE': 'Discovery Science',
+    'DISC TURBO': 'Discovery Turbo',
+    'SKY CINEMA SCIFIHORROR': 'SKY CINEMA SCFI/HORROR',
+    'RTEJR': 'RTE Junior',
     '5': 'Channel5',
     '5+1': 'Channel5+1',
 };
 
 /**
- * Sky UK scraper configuration
+ * Sanity checks for the scraped lineup
  */
-const config: ScraperConfig = {
+const validation: ValidationRules = {
+    minChannels: 1,
+    uniqueNumbers: true,
+    numberFormat: /^\d+$/,
+    maxChangePercent: 25
+};
+
+/**
+ * Sky UK table definition
+ * Describes the layout of the channel listing page
+ */
+export const definition: TableScraperDefinition = {
+    name: 'SKY',
     url: 'https://rxtvinfo.com/sky-channel-list-uk/',
-    scrapeFunction,
+    // Server-rendered table, fetched and parsed without a browser
+    mode: 'http',
+    rowSelector: 'table tbody tr',
+    columns: { number: '.column-1', name: '.column-2', region: '.column-3' },
+    // Rows with dashes in numbers are category definitions for the rows that follow
+    categoryRows: { column: 'number', contains: '-', from: 'name' },
+    // Regional variants are marked "In <region>" (e.g., "In Scotland")
+    regionPrefix: 'In ',
     overrides,
-    outputFile: 'sky.json'
+    outputFile: 'sky.json',
+    validation,
+    regions: ['England', 'Wales', 'Scotland', 'Northern Ireland']
 };
 
+/**
+ * Sky UK scraper configuration
+ */
+const config: ScraperConfig = createTableScraper(definition);
+
 // Run scraper if this file is executed directly
 if (require.main === module) {
     runScraperCLI(config).catch(() => process.exit(1));
 }
 
-export default config; 
\ No newline at end of file
+export default config;
\ No newline at end of file
@@ -3,57 +3,62 @@
  * Extracts channel numbers and names from Virgin Media's channel lineup
  */
 
-import { runScraper, runScraperCLI, type ScraperConfig, type Channel } from '../utils/scraper';
-import type { Page } from 'playwright';
-
-/**
- * Extracts channel information from the Virgin Media channel listing page
- * @param page - Playwright page instance
- * @returns Array of partial channel objects containing number and name
- */
-const scrapeFunction = async (page: Page): Promise<Partial<Channel>[]> => {
-    return await page.$$eval('table tbody tr', (rows) => {
-        return rows.map((row) => {
-            // Skip regional variants (e.g., "In Wales")
-            const region = row.querySelector('.column-3')?.textContent?.trim() || '';
-            const number = row.querySelector('.column-1')?.textContent?.trim() || '';
-            const name = row.querySelector('.column-2')?.textContent?.trim() || '';
-
-            // Skip those with dashes in numbers as these are category definitions
-            // Region variants are also skipped these start with In
-            if(!name || !number || number.includes('-') || region.startsWith('In')) {
-                return {};
-            }
-
-            return { number, name };
-        });
-    });
-};
+import { runScraperCLI, type ScraperConfig } from '../utils/scraper';
+import { createTableScraper, type TableScraperDefinition } from '../utils/tableScraper';
+import type { ValidationRules } from '../utils/validation';
 
 /**
  * Channel name overrides to standardize naming across providers
+ * Keys are normalized names
  */
 const overrides: Record<string, string> = {
     'TNT SPORTS ULTIMATE': 'TNT Ultimate',
-    'ITV1/STV/UTV': 'ITV1',
-    'SKY CINEMA SCI-FI & HORROR HD': 'SKY CINEMA SCFI/HORROR',
+    'ITV1STVUTV': 'ITV1',
+    'SKY CINEMA SCIFI&HORROR HD': 'SKY CINEMA SCFI/HORROR',
+    '5': 'Channel5',
     '5 HD': 'Channel5 HD',
     '5+1': 'Channel5+1',
 };
 
 /**
- * Virgin Media scraper configuration
+ * Sanity checks for the scraped lineup
  */
-const config: ScraperConfig = {
+const validation: ValidationRules = {
+    minChannels: 1,
+    uniqueNumbers: true,
+    numberFormat: /^\d+$/,
+    maxChangePercent: 25
+};
+
+/**
+ * Virgin Media table definition
+ * Describes the layout of the channel listing page
+ */
+export const definition: TableScraperDefinition = {
+    name: 'Virgin',
     url: 'https://rxtvinfo.com/virgin-media-channel-list-uk/',
-    scrapeFunction,
+    // Server-rendered table, fetched and parsed without a browser
+    mode: 'http',
+    rowSelector: 'table tbody tr',
+    columns: { number: '.column-1', name: '.column-2', region: '.column-3' },
+    // Rows with dashes in numbers are category definitions for the rows that follow
+    categoryRows: { column: 'number', contains: '-', from: 'name' },
+    // Regional variants are marked "In <region>" (e.g., "In Wales")
+    regionPrefix: 'In ',
     overrides,
-    outputFile: 'virgin.json'
+    outputFile: 'virgin.json',
+    validation,
+    regions: ['England', 'Wales', 'Scotland', 'Northern Ireland']
 };
 
+/**
+ * Virgin Media scraper configuration
+ */
+const config: ScraperConfig = createTableScraper(definition);
+
 // Run scraper if this file is executed directly
 if (require.main === module) {
     runScraperCLI(config).catch(() => process.exit(1));
 }
 
-export default config; 
\ No newline at end of file
+export default config;
\ No newline at end of file
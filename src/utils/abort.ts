@@ -0,0 +1,151 @@
+/**
+ * Cancellation and deadlines
+ * Scrapes take an AbortSignal that is aborted when the caller cancels or a deadline passes.
+ * The signal's reason tells the two apart, so a provider that was stopped is reported as
+ * cancelled or timed out rather than as a failure.
+ */
+
+/**
+ * Outcome of a provider's scrape
+ * - succeeded: a lineup was returned
+ * - failed: the scrape failed or its lineup failed validation
+ * - cancelled: the caller's signal was aborted before the scrape finished
+ * - timed-out: the run's or the provider's deadline passed before the scrape finished
+ */
+export type ScrapeStatus = 'succeeded' | 'failed' | 'cancelled' | 'timed-out';
+
+/**
+ * Error for a scrape stopped by the caller
+ */
+export class ScrapeCancelledError extends Error {
+    constructor(message: string = 'Scrape was cancelled') {
+        super(message);
+        this.name = 'ScrapeCancelledError';
+    }
+}
+
+/**
+ * Error for a scrape stopped by a deadline
+ * @property {number} timeout - Milliseconds the deadline allowed
+ */
+export class ScrapeTimeoutError extends Error {
+    readonly timeout: number;
+
+    constructor(timeout: number, message: string = `Scrape timed out after ${timeout}ms`) {
+        super(message);
+        this.name = 'ScrapeTimeoutError';
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * A signal aborted by a parent signal or when a timeout passes
+ * @property {AbortSignal} signal - The combined signal
+ * @property {Function} dispose - Stops the timer and stops following the parent signal
+ */
+export interface Deadline {
+    signal: AbortSignal;
+    dispose: () => void;
+}
+
+/**
+ * The error a scrape stopped by a signal fails with
+ * Reasons that are not scrape errors, e.g. the DOMException of a plain abort(), become a ScrapeCancelledError
+ * @param {AbortSignal} signal - An aborted signal
+ * @returns {Error} A ScrapeCancelledError or ScrapeTimeoutError
+ */
+export function abortReason(signal: AbortSignal): Error {
+    const reason = signal.reason;
+    if (reason instanceof ScrapeCancelledError || reason instanceof ScrapeTimeoutError) {
+        return reason;
+    }
+    return new ScrapeCancelledError(reason instanceof Error && reason.name !== 'AbortError' ? reason.message : undefined);
+}
+
+/**
+ * Throws the scrape error of an aborted signal
+ * @param {AbortSignal} [signal] - Signal to check
+ * @throws {ScrapeCancelledError | ScrapeTimeoutError} If the signal is aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw abortReason(signal);
+    }
+}
+
+/**
+ * Settles with a promise, or rejects as soon as the signal is aborted
+ * The promise keeps running, so whatever it waits on should be closed by another abort listener
+ * @template T - Result type
+ * @param {Promise<T>} promise - Work to wait for
+ * @param {AbortSignal} [signal] - Signal to stop waiting on
+ * @returns {Promise<T>} Result of the work
+ * @throws {ScrapeCancelledError | ScrapeTimeoutError} If the signal is aborted first
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) {
+        promise.catch(() => undefined);
+        return Promise.reject(abortReason(signal));
+    }
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(abortReason(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Waits for a number of milliseconds, unless the signal is aborted first
+ * @param {number} ms - Milliseconds to wait
+ * @param {AbortSignal} [signal] - Signal to stop waiting on
+ * @throws {ScrapeCancelledError | ScrapeTimeoutError} If the signal is aborted first
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const delay = new Promise<void>(resolve => {
+        timer = setTimeout(resolve, ms);
+    });
+    return abortable(delay, signal).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Creates a signal that follows a parent signal and aborts with a ScrapeTimeoutError when a timeout passes
+ * @param {AbortSignal} [parent] - Signal of the caller or of an enclosing deadline
+ * @param {number} [timeout] - Milliseconds until the deadline, none when unset
+ * @param {string} [label] - What times out, for the error message, e.g. "SKY scrape"
+ * @returns {Deadline} The signal, and a function to release its timer and listener once the work is done
+ */
+export function createDeadline(parent?: AbortSignal, timeout?: number, label: string = 'Scrape'): Deadline {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(parent?.reason);
+    if (parent?.aborted) {
+        controller.abort(parent.reason);
+    } else {
+        parent?.addEventListener('abort', onAbort, { once: true });
+    }
+    const timer = timeout !== undefined
+        ? setTimeout(() => controller.abort(new ScrapeTimeoutError(timeout, `${label} timed out after ${timeout}ms`)), timeout)
+        : undefined;
+
+    return {
+        signal: controller.signal,
+        dispose: () => {
+            clearTimeout(timer);
+            parent?.removeEventListener('abort', onAbort);
+        }
+    };
+}
+
+/**
+ * Works out the status of a scrape from its outcome
+ * @param {boolean} success - Whether a lineup was returned
+ * @param {Error} [error] - Why the scrape failed
+ * @returns {ScrapeStatus} The status
+ */
+export function getScrapeStatus(success: boolean, error?: Error): ScrapeStatus {
+    if (success) return 'succeeded';
+    if (error instanceof ScrapeTimeoutError) return 'timed-out';
+    if (error instanceof ScrapeCancelledError) return 'cancelled';
+    return 'failed';
+}
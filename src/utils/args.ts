@@ -1,28 +1,511 @@
-interface Args {
+/**
+ * Command line argument parsing
+ * The CLI is a set of subcommands sharing one set of flags. Each command declares the
+ * flags and positional arguments it accepts, which drives both validation and --help.
+ */
+
+import type { SnapshotMode } from './scraper';
+import { LOG_FORMATS, LOG_LEVELS, type LogFormat, type LogLevel } from './logger';
+
+export type Command = 'list-providers' | 'scrape' | 'export' | 'validate' | 'diff' | 'compare' | 'annotate' | 'history' | 'serve' | 'help';
+
+export interface Args {
+    command: Command;
+    positionals: string[];
+    help: boolean;
     provider?: string;
     writeFiles: boolean;
     maxConcurrent?: number;
+    plugins: string[];
+    snapshotMode?: SnapshotMode;
+    snapshotDir?: string;
+    formats: string[];
+    json: boolean;
+    csv: boolean;
+    sort: boolean;
+    region?: string;
+    splitRegions: boolean;
+    config?: string;
+    output?: string;
+    previous?: string;
+    port?: number;
+    host?: string;
+    maxAge?: number;
+    timeout?: number;
+    providerTimeout?: number;
+    force: boolean;
+    logLevel: LogLevel;
+    logFormat: LogFormat;
+    historyFile?: string;
+    diagnosticsDir?: string;
+    at?: string;
+    channel?: string;
 }
 
 /**
- * Parses command line arguments
- * @returns Parsed arguments object
+ * Error for invalid command line arguments
+ * @property {Command} [command] - Command whose usage was violated, if known
+ */
+export class UsageError extends Error {
+    readonly command?: Command;
+
+    constructor(message: string, command?: Command) {
+        super(message);
+        this.name = 'UsageError';
+        this.command = command;
+    }
+}
+
+type FlagName = 'provider' | 'write-files' | 'max-concurrent' | 'plugin' | 'record' | 'replay' | 'format'
+    | 'region' | 'split-regions' | 'config' | 'json' | 'output' | 'previous' | 'port' | 'host'
+    | 'max-age' | 'timeout' | 'provider-timeout' | 'force' | 'log-level' | 'log-format' | 'history-file' | 'diagnostics-dir' | 'at' | 'channel' | 'csv' | 'sort';
+
+/**
+ * A flag and how its value is stored
+ * Flags with a placeholder take a value, the others are switches
+ */
+interface FlagSpec {
+    placeholder?: string;
+    description: string;
+    apply: (args: Args, value: string, command: Command) => void;
+}
+
+/**
+ * A command and the arguments it accepts
+ */
+interface CommandSpec {
+    usage: string;
+    summary: string;
+    positionals: [min: number, max: number];
+    flags: FlagName[];
+}
+
+const PROGRAM = 'scrape-channel-listings';
+
+const setSnapshot = (mode: SnapshotMode) => (args: Args, value: string, command: Command) => {
+    if (args.snapshotMode && args.snapshotMode !== mode) {
+        throw new UsageError('--record and --replay cannot be used together', command);
+    }
+    args.snapshotMode = mode;
+    args.snapshotDir = value;
+};
+
+const FLAGS: Record<FlagName, FlagSpec> = {
+    'provider': {
+        placeholder: '<name>',
+        description: 'Only this provider, matched case-insensitively',
+        apply: (args, value) => { args.provider = value; }
+    },
+    'write-files': {
+        description: 'Write one file per provider and format instead of printing',
+        apply: (args) => { args.writeFiles = true; }
+    },
+    'max-concurrent': {
+        placeholder: '<n>',
+        description: 'Number of providers scraped at once (default: 4)',
+        apply: (args, value, command) => {
+            if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+                throw new UsageError(`--max-concurrent must be a positive integer, got "${value}"`, command);
+            }
+            args.maxConcurrent = parseInt(value, 10);
+        }
+    },
+    'plugin': {
+        placeholder: '<path>',
+        description: 'Load providers from a module, definition file or directory (repeatable)',
+        apply: (args, value) => { args.plugins.push(value); }
+    },
+    'record': {
+        placeholder: '<dir>',
+        description: 'Save the rendered HTML of each provider to a snapshot directory',
+        apply: setSnapshot('record')
+    },
+    'replay': {
+        placeholder: '<dir>',
+        description: 'Scrape saved snapshots instead of the live sites',
+        apply: setSnapshot('replay')
+    },
+    'format': {
+        placeholder: '<format>',
+        description: 'Output format: json (default), m3u, xmltv, csv (repeatable with --write-files)',
+        apply: (args, value) => { args.formats.push(value.toLowerCase()); }
+    },
+    'region': {
+        placeholder: '<region>',
+        description: 'Lineup for a region, e.g. Wales',
+        apply: (args, value) => { args.region = value; }
+    },
+    'split-regions': {
+        description: 'Also write one file per region',
+        apply: (args) => { args.splitRegions = true; }
+    },
+    'config': {
+        placeholder: '<file>',
+        description: 'Configuration file (default: ./scrape-channels.config.json)',
+        apply: (args, value) => { args.config = value; }
+    },
+    'json': {
+        description: 'Print JSON instead of a readable report',
+        apply: (args, value, command) => {
+            if (args.csv) {
+                throw new UsageError('--json and --csv cannot be used together', command);
+            }
+            args.json = true;
+        }
+    },
+    'csv': {
+        description: 'Print CSV instead of a readable report',
+        apply: (args, value, command) => {
+            if (args.json) {
+                throw new UsageError('--json and --csv cannot be used together', command);
+            }
+            args.csv = true;
+        }
+    },
+    'output': {
+        placeholder: '<file>',
+        description: 'Write to a file instead of printing',
+        apply: (args, value) => { args.output = value; }
+    },
+    'previous': {
+        placeholder: '<path>',
+        description: 'Previous run to check maxChangePercent against',
+        apply: (args, value) => { args.previous = value; }
+    },
+    'port': {
+        placeholder: '<port>',
+        description: 'Port to listen on (default: 3000)',
+        apply: (args, value, command) => {
+            if (!/^\d+$/.test(value) || parseInt(value, 10) > 65535) {
+                throw new UsageError(`--port must be a port number, got "${value}"`, command);
+            }
+            args.port = parseInt(value, 10);
+        }
+    },
+    'max-age': {
+        placeholder: '<ms>',
+        description: 'Use cached lineups up to this many milliseconds old',
+        apply: (args, value, command) => {
+            if (!/^\d+$/.test(value)) {
+                throw new UsageError(`--max-age must be a number of milliseconds, got "${value}"`, command);
+            }
+            args.maxAge = parseInt(value, 10);
+        }
+    },
+    'timeout': {
+        placeholder: '<ms>',
+        description: 'Stop the run after this many milliseconds, reporting unfinished providers as timed out',
+        apply: (args, value, command) => {
+            if (!/^[1-9]\d*$/.test(value)) {
+                throw new UsageError(`--timeout must be a positive number of milliseconds, got "${value}"`, command);
+            }
+            args.timeout = parseInt(value, 10);
+        }
+    },
+    'provider-timeout': {
+        placeholder: '<ms>',
+        description: 'Stop each provider after this many milliseconds, reporting it as timed out',
+        apply: (args, value, command) => {
+            if (!/^[1-9]\d*$/.test(value)) {
+                throw new UsageError(`--provider-timeout must be a positive number of milliseconds, got "${value}"`, command);
+            }
+            args.providerTimeout = parseInt(value, 10);
+        }
+    },
+    'force': {
+        description: 'Scrape even when a fresh cached lineup exists',
+        apply: (args) => { args.force = true; }
+    },
+    'log-level': {
+        placeholder: '<level>',
+        description: `Minimum level of progress messages on stderr: ${LOG_LEVELS.join(', ')} (default: info)`,
+        apply: (args, value, command) => {
+            if (!LOG_LEVELS.includes(value as LogLevel)) {
+                throw new UsageError(`--log-level must be one of: ${LOG_LEVELS.join(', ')}, got "${value}"`, command);
+            }
+            args.logLevel = value as LogLevel;
+        }
+    },
+    'log-format': {
+        placeholder: '<format>',
+        description: 'Progress message format: text (default) or ndjson',
+        apply: (args, value, command) => {
+            if (!LOG_FORMATS.includes(value as LogFormat)) {
+                throw new UsageError(`--log-format must be one of: ${LOG_FORMATS.join(', ')}, got "${value}"`, command);
+            }
+            args.logFormat = value as LogFormat;
+        }
+    },
+    'host': {
+        placeholder: '<host>',
+        description: 'Address to listen on (default: all interfaces)',
+        apply: (args, value) => { args.host = value; }
+    },
+    'sort': {
+        description: 'Order the playlist by channel number, unmatched entries last',
+        apply: (args) => { args.sort = true; }
+    },
+    'history-file': {
+        placeholder: '<file>',
+        description: 'Lineup history file (default: historyFile from the configuration)',
+        apply: (args, value) => { args.historyFile = value; }
+    },
+    'diagnostics-dir': {
+        placeholder: '<dir>',
+        description: 'Save a screenshot, HTML, console log and trace of failed scrapes here (default: diagnosticsDir from the configuration)',
+        apply: (args, value) => { args.diagnosticsDir = value; }
+    },
+    'at': {
+        placeholder: '<date>',
+        description: 'Print the lineup as it was at this date or ISO time',
+        apply: (args, value, command) => {
+            if (isNaN(Date.parse(value))) {
+                throw new UsageError(`--at must be a date, e.g. 2026-03-31, got "${value}"`, command);
+            }
+            if (args.channel !== undefined) {
+                throw new UsageError('--at and --channel cannot be used together', command);
+            }
+            args.at = value;
+        }
+    },
+    'channel': {
+        placeholder: '<name>',
+        description: 'Print the numbers this channel has been listed under',
+        apply: (args, value, command) => {
+            if (args.at !== undefined) {
+                throw new UsageError('--at and --channel cannot be used together', command);
+            }
+            args.channel = value;
+        }
+    }
+};
+
+const SCRAPE_FLAGS: FlagName[] = ['write-files', 'format', 'region', 'record', 'replay', 'diagnostics-dir', 'config', 'log-level', 'log-format'];
+
+const COMMANDS: Record<Command, CommandSpec> = {
+    'list-providers': {
+        usage: 'list-providers [options]',
+        summary: 'List the registered providers',
+        positionals: [0, 0],
+        flags: ['plugin', 'json']
+    },
+    'scrape': {
+        usage: 'scrape [options]',
+        summary: 'Scrape every provider, or one with --provider (the default command)',
+        positionals: [0, 0],
+        flags: ['provider', 'max-concurrent', 'split-regions', 'max-age', 'timeout', 'provider-timeout', 'force', 'history-file', 'plugin', ...SCRAPE_FLAGS]
+    },
+    'export': {
+        usage: 'export <path> [options]',
+        summary: 'Convert a saved run to another format',
+        positionals: [1, 1],
+        flags: ['provider', 'format', 'output']
+    },
+    'validate': {
+        usage: 'validate <path> [options]',
+        summary: 'Check a saved run against the providers\' validation rules',
+        positionals: [1, 1],
+        flags: ['previous', 'plugin', 'json']
+    },
+    'diff': {
+        usage: 'diff <before> <after> [options]',
+        summary: 'Compare two saved runs',
+        positionals: [2, 2],
+        flags: ['json']
+    },
+    'compare': {
+        usage: 'compare <path> [provider...] [options]',
+        summary: 'Compare the channels and numbers of providers in a saved run',
+        positionals: [1, Infinity],
+        flags: ['json', 'csv', 'output']
+    },
+    'annotate': {
+        usage: 'annotate <playlist> [lineup] [options]',
+        summary: 'Write a provider\'s channel numbers into an M3U playlist, from a saved run or a fresh scrape',
+        positionals: [1, 2],
+        flags: ['provider', 'sort', 'output', 'json', 'plugin', 'config']
+    },
+    'history': {
+        usage: 'history [provider] [options]',
+        summary: 'List a provider\'s recorded scrapes, its lineup at a date, or a channel\'s numbers over time',
+        positionals: [0, 1],
+        flags: ['at', 'channel', 'region', 'format', 'json', 'history-file', 'config']
+    },
+    'serve': {
+        usage: 'serve [options]',
+        summary: 'Serve lineups over HTTP, scraping providers on demand',
+        positionals: [0, 0],
+        flags: ['port', 'host', 'plugin', 'record', 'replay', 'config', 'log-level', 'log-format']
+    },
+    'help': {
+        usage: 'help [command]',
+        summary: 'Show help for a command',
+        positionals: [0, 1],
+        flags: []
+    }
+};
+
+/**
+ * Flags accepted by the per-provider scraper entry points
+ */
+const SCRAPER_COMMAND: CommandSpec = {
+    usage: '[options]',
+    summary: 'Scrape this provider',
+    positionals: [0, 0],
+    flags: SCRAPE_FLAGS
+};
+
+const isCommand = (value: string): value is Command => Object.prototype.hasOwnProperty.call(COMMANDS, value);
+
+/**
+ * Parses flags and positionals against a command's spec
  */
-export function parseArgs(): Args {
+const parseCommand = (command: Command, spec: CommandSpec, argv: string[]): Args => {
     const args: Args = {
-        writeFiles: false
+        command,
+        positionals: [],
+        help: false,
+        writeFiles: false,
+        plugins: [],
+        formats: [],
+        json: false,
+        csv: false,
+        sort: false,
+        splitRegions: false,
+        force: false,
+        logLevel: 'info',
+        logFormat: 'text'
     };
 
-    for (let i = 2; i < process.argv.length; i++) {
-        const arg = process.argv[i];
-        if (arg === '--provider' && i + 1 < process.argv.length) {
-            args.provider = process.argv[++i];
-        } else if (arg === '--write-files') {
-            args.writeFiles = true;
-        } else if (arg === '--max-concurrent' && i + 1 < process.argv.length) {
-            args.maxConcurrent = parseInt(process.argv[++i], 10);
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') {
+            args.help = true;
+            continue;
         }
+        if (!arg.startsWith('-')) {
+            args.positionals.push(arg);
+            continue;
+        }
+
+        const equals = arg.indexOf('=');
+        const name = arg.slice(2, equals === -1 ? undefined : equals);
+        const inlineValue = equals === -1 ? undefined : arg.slice(equals + 1);
+        if (!spec.flags.includes(name as FlagName)) {
+            throw new UsageError(`Unknown option "${arg}" for ${command}`, command);
+        }
+        const flag = FLAGS[name as FlagName];
+        let value = inlineValue ?? '';
+        if (flag.placeholder && inlineValue === undefined) {
+            if (i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+                throw new UsageError(`Option --${name} requires a value ${flag.placeholder}`, command);
+            }
+            value = argv[++i];
+        } else if (!flag.placeholder && inlineValue !== undefined) {
+            throw new UsageError(`Option --${name} does not take a value`, command);
+        }
+        flag.apply(args, value, command);
+    }
+
+    const [min, max] = spec.positionals;
+    if (!args.help && (args.positionals.length < min || args.positionals.length > max)) {
+        const extra = args.positionals.length > max ? `unexpected argument "${args.positionals[max]}"` : 'missing arguments';
+        throw new UsageError(`Usage: ${PROGRAM} ${spec.usage} (${extra})`, command);
+    }
+    if (command === 'help' && args.positionals[0] && !isCommand(args.positionals[0])) {
+        throw new UsageError(`Unknown command "${args.positionals[0]}"`);
+    }
+
+    if (args.formats.length === 0) {
+        args.formats.push('json');
     }
 
     return args;
-} 
\ No newline at end of file
+};
+
+/**
+ * Parses command line arguments
+ * Without a command, or when the first argument is an option, the scrape command is used;
+ * a leading --help is the help command
+ * @param {string[]} [argv] - Arguments after the program name
+ * @returns {Args} Parsed arguments
+ * @throws {UsageError} For unknown commands or options, missing or malformed values, and wrong argument counts
+ */
+export function parseArgs(argv: string[] = process.argv.slice(2)): Args {
+    const [first, ...rest] = argv;
+    if (first === '--help' || first === '-h') {
+        return parseCommand('help', COMMANDS.help, rest);
+    }
+    if (first === undefined || first.startsWith('-')) {
+        return parseCommand('scrape', COMMANDS.scrape, argv);
+    }
+    if (!isCommand(first)) {
+        throw new UsageError(`Unknown command "${first}"`);
+    }
+    return parseCommand(first, COMMANDS[first], rest);
+}
+
+/**
+ * Parses the arguments of a per-provider scraper entry point, e.g. npm run scrape:sky
+ * @param {string[]} [argv] - Arguments after the script name
+ * @returns {Args} Parsed arguments for the scrape command
+ * @throws {UsageError} For options the entry points do not accept and malformed values
+ */
+export function parseScraperArgs(argv: string[] = process.argv.slice(2)): Args {
+    return parseCommand('scrape', SCRAPER_COMMAND, argv);
+}
+
+/**
+ * Formats the options of a command as aligned help lines
+ */
+const formatOptions = (flags: FlagName[]): string[] => {
+    const lines = flags.map(name => [`--${name}${FLAGS[name].placeholder ? ` ${FLAGS[name].placeholder}` : ''}`, FLAGS[name].description]);
+    lines.push(['-h, --help', 'Show this help']);
+    const width = Math.max(...lines.map(([option]) => option.length)) + 2;
+    return lines.map(([option, description]) => `  ${option.padEnd(width)}${description}`);
+};
+
+/**
+ * Builds the help text for the CLI or one of its commands
+ * @param {Command} [command] - Command to describe, the list of commands when unset
+ * @returns {string} Help text
+ */
+export function formatHelp(command?: Command): string {
+    if (!command || command === 'help') {
+        const width = Math.max(...Object.keys(COMMANDS).map(name => name.length)) + 2;
+        return [
+            `Usage: ${PROGRAM} <command> [options]`,
+            '',
+            'Commands:',
+            ...Object.entries(COMMANDS).map(([name, spec]) => `  ${name.padEnd(width)}${spec.summary}`),
+            '',
+            `Run "${PROGRAM} <command> --help" for the options of a command.`
+        ].join('\n');
+    }
+
+    const spec = COMMANDS[command];
+    return [
+        `Usage: ${PROGRAM} ${spec.usage}`,
+        '',
+        spec.summary,
+        '',
+        'Options:',
+        ...formatOptions(spec.flags)
+    ].join('\n');
+}
+
+/**
+ * Builds the help text for a per-provider scraper entry point
+ * @param {string} script - How the entry point is run, e.g. "npm run scrape:sky --"
+ * @returns {string} Help text
+ */
+export function formatScraperHelp(script: string): string {
+    return [
+        `Usage: ${script} ${SCRAPER_COMMAND.usage}`,
+        '',
+        SCRAPER_COMMAND.summary,
+        '',
+        'Options:',
+        ...formatOptions(SCRAPER_COMMAND.flags)
+    ].join('\n');
+}
@@ -0,0 +1,68 @@
+/**
+ * Shared browser pool
+ * Launches a single Chromium on first use and hands out one browser context per provider,
+ * so concurrent scrapers share a browser instead of each launching their own.
+ * The browser is closed only when the pool is closed; callers that handle signals close it themselves.
+ */
+
+import playwright from 'playwright';
+
+/**
+ * A pool of browser contexts backed by one shared browser
+ */
+export interface BrowserPool {
+    /**
+     * Creates a new context, launching the browser if it is not running yet
+     * @throws {Error} If the pool has been closed
+     */
+    acquire: (contextOptions?: playwright.BrowserContextOptions) => Promise<playwright.BrowserContext>;
+    /** Closes a context created by acquire */
+    release: (context: playwright.BrowserContext) => Promise<void>;
+    /** Closes every open context and the browser; the pool cannot be used afterwards */
+    close: () => Promise<void>;
+}
+
+/**
+ * Creates a browser pool
+ * @param {playwright.LaunchOptions} [launchOptions] - Options for launching the shared browser
+ * @returns {BrowserPool} The pool
+ */
+export function createBrowserPool(launchOptions: playwright.LaunchOptions = {}): BrowserPool {
+    let launching: Promise<playwright.Browser> | null = null;
+    let closed = false;
+    const contexts = new Set<playwright.BrowserContext>();
+
+    const launch = (): Promise<playwright.Browser> => {
+        if (!launching) {
+            launching = playwright.chromium.launch(launchOptions);
+        }
+        return launching;
+    };
+
+    const closeBrowser = async (): Promise<void> => {
+        closed = true;
+        if (!launching) return;
+
+        const browser = await launching.catch(() => null);
+        await Promise.all(Array.from(contexts).map(context => context.close().catch(() => undefined)));
+        contexts.clear();
+        await browser?.close().catch(() => undefined);
+    };
+
+    return {
+        acquire: async (contextOptions) => {
+            if (closed) {
+                throw new Error('Browser pool has been closed');
+            }
+            const browser = await launch();
+            const context = await browser.newContext(contextOptions);
+            contexts.add(context);
+            return context;
+        },
+        release: async (context) => {
+            contexts.delete(context);
+            await context.close();
+        },
+        close: closeBrowser
+    };
+}
@@ -0,0 +1,69 @@
+/**
+ * Filesystem cache of scraped lineups
+ * Keeps the last good lineup of each provider, with every regional row, so a recent
+ * lineup can be returned without a browser scrape and a failed scrape can fall back to it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Channel } from './scraper';
+
+/**
+ * A cached lineup
+ * @property {string} provider - Provider name
+ * @property {string} cachedAt - ISO time the lineup was scraped
+ * @property {Channel[]} channels - National and regional rows as returned by the scraper
+ */
+export interface CacheEntry {
+    provider: string;
+    cachedAt: string;
+    channels: Channel[];
+}
+
+const cacheFile = (dir: string, provider: string): string =>
+    path.join(path.resolve(dir), `${provider.toLowerCase()}.json`);
+
+/**
+ * Reads a provider's cached lineup
+ * @param {string} dir - Cache directory
+ * @param {string} provider - Provider name
+ * @returns {CacheEntry | undefined} The entry, or undefined if there is none or it cannot be read
+ */
+export function readCache(dir: string, provider: string): CacheEntry | undefined {
+    const file = cacheFile(dir, provider);
+    if (!fs.existsSync(file)) {
+        return undefined;
+    }
+    try {
+        const entry = JSON.parse(fs.readFileSync(file, 'utf8')) as CacheEntry;
+        return Array.isArray(entry.channels) && !isNaN(Date.parse(entry.cachedAt)) ? entry : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Stores a provider's lineup, replacing any cached one
+ * @param {string} dir - Cache directory, created if it does not exist
+ * @param {string} provider - Provider name
+ * @param {Channel[]} channels - National and regional rows as returned by the scraper
+ * @param {Date} [cachedAt] - When the lineup was scraped, now by default
+ * @returns {CacheEntry} The stored entry
+ */
+export function writeCache(dir: string, provider: string, channels: Channel[], cachedAt: Date = new Date()): CacheEntry {
+    const entry: CacheEntry = { provider, cachedAt: cachedAt.toISOString(), channels };
+    const file = cacheFile(dir, provider);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(entry, null, 2));
+    return entry;
+}
+
+/**
+ * Age of a cached lineup
+ * @param {CacheEntry} entry - Cached lineup
+ * @param {number} [now] - Current epoch milliseconds
+ * @returns {number} Milliseconds since the lineup was scraped
+ */
+export function cacheAge(entry: CacheEntry, now: number = Date.now()): number {
+    return now - Date.parse(entry.cachedAt);
+}
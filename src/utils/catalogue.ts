@@ -0,0 +1,124 @@
+/**
+ * Canonical channel catalogue
+ * Links the same channel across providers with a stable ID, display name and aliases.
+ * Scraped names are resolved against the catalogue after normalization, so aliases
+ * can be written as they appear on the source pages.
+ */
+
+import type { Channel } from './scraper';
+import { normalizeChannelName } from './normalize';
+
+/**
+ * A channel in the canonical catalogue
+ * @property {string} id - Stable identifier shared by every provider's listing of the channel
+ * @property {string} name - Display name of the channel
+ * @property {string[]} [aliases] - Other names the channel is listed under by providers
+ */
+export interface CanonicalChannel {
+    id: string;
+    name: string;
+    aliases?: string[];
+}
+
+/**
+ * Built-in catalogue entries
+ */
+const CATALOGUE: CanonicalChannel[] = [
+    // UK
+    { id: 'bbc-one', name: 'BBC One' },
+    { id: 'bbc-two', name: 'BBC Two' },
+    { id: 'itv1', name: 'ITV1', aliases: ['ITV', 'ITV1/STV/UTV'] },
+    { id: 'channel-4', name: 'Channel 4' },
+    { id: 'channel-5', name: 'Channel 5', aliases: ['5', 'Channel5'] },
+    { id: 'channel-5-hd', name: 'Channel 5 HD', aliases: ['5 HD', 'Channel5 HD'] },
+    { id: 'channel-5-plus-1', name: 'Channel 5+1', aliases: ['5+1', 'Channel5+1'] },
+    { id: 'sky-atlantic', name: 'Sky Atlantic' },
+    { id: 'sky-cinema-scifi-horror', name: 'Sky Cinema Sci-Fi/Horror', aliases: ['Sky Cinema ScFi/Horror', 'Sky Cinema Sci-Fi & Horror', 'Sky Cinema Sci-Fi & Horror HD'] },
+    { id: 'discovery-science', name: 'Discovery Science', aliases: ['Disc. Science'] },
+    { id: 'discovery-turbo', name: 'Discovery Turbo', aliases: ['Disc. Turbo'] },
+    { id: 'rte-junior', name: 'RTE Junior', aliases: ['RTÉjr', 'RTEjr'] },
+    { id: 'tnt-sports-ultimate', name: 'TNT Sports Ultimate', aliases: ['TNT Ultimate'] },
+    // US
+    { id: 'abc', name: 'ABC' },
+    { id: 'a-and-e', name: 'A&E' },
+    { id: 'amc', name: 'AMC' },
+    { id: 'cheddar-news', name: 'Cheddar News' },
+    { id: 'cnn', name: 'CNN' },
+    { id: 'directv-4k', name: 'DIRECTV 4K' },
+    { id: 'directv-4k-live', name: 'DIRECTV 4K Live' },
+    { id: 'espn', name: 'ESPN' },
+    { id: 'espn2', name: 'ESPN2' },
+    { id: 'hbo', name: 'HBO', aliases: ['HBO East'] },
+    { id: 'hbo-2', name: 'HBO 2' },
+    { id: 'nickelodeon', name: 'Nickelodeon', aliases: ['Nick'] },
+    { id: 'paramount-network', name: 'Paramount Network' }
+];
+
+const catalogue = new Map<string, CanonicalChannel>();
+
+// Normalized name/alias to canonical ID, rebuilt when the catalogue changes
+let aliasIndex: Map<string, string> | null = null;
+
+const buildAliasIndex = (): Map<string, string> => {
+    const index = new Map<string, string>();
+    catalogue.forEach(entry => {
+        [entry.name, ...(entry.aliases || [])].forEach(alias => {
+            index.set(normalizeChannelName(alias), entry.id);
+        });
+    });
+    return index;
+};
+
+/**
+ * Adds entries to the catalogue, replacing any existing entries with the same ID
+ * @param {CanonicalChannel[]} entries - Catalogue entries to add
+ * @throws {Error} If an entry has no ID or name
+ */
+export function addCanonicalChannels(entries: CanonicalChannel[]): void {
+    entries.forEach(entry => {
+        if (!entry.id || !entry.name) {
+            throw new Error('Canonical channels must have an id and a name');
+        }
+        catalogue.set(entry.id, entry);
+    });
+    aliasIndex = null;
+}
+
+/**
+ * Looks up a catalogue entry by ID
+ * @param {string} id - Canonical channel ID
+ * @returns {CanonicalChannel | undefined} The catalogue entry, if any
+ */
+export function getCanonicalChannel(id: string): CanonicalChannel | undefined {
+    return catalogue.get(id);
+}
+
+/**
+ * Lists every entry in the catalogue
+ * @returns {CanonicalChannel[]} Catalogue entries
+ */
+export function listCanonicalChannels(): CanonicalChannel[] {
+    return Array.from(catalogue.values());
+}
+
+/**
+ * Resolves a channel name against the catalogue
+ * Names are normalized before matching, so raw and overridden names both resolve
+ * @param {string} name - Channel name, raw or normalized
+ * @returns {string | undefined} Canonical ID, or undefined when the name is not catalogued
+ */
+export function resolveCanonicalId(name: string): string | undefined {
+    aliasIndex = aliasIndex || buildAliasIndex();
+    return aliasIndex.get(normalizeChannelName(name));
+}
+
+/**
+ * Lists the names of channels that did not resolve to a catalogue entry
+ * @param {Channel[]} channels - Processed channels
+ * @returns {string[]} Unique unmatched channel names, in lineup order
+ */
+export function findUnmatchedChannels(channels: Channel[]): string[] {
+    return Array.from(new Set(channels.filter(channel => !channel.canonicalId).map(channel => channel.name)));
+}
+
+addCanonicalChannels(CATALOGUE);
@@ -0,0 +1,137 @@
+/**
+ * Cross-provider lineup comparison
+ * Lines up the channels of several providers side by side: which numbers each provider
+ * carries a channel on, which channels every provider shares and which only one carries.
+ * Channels are matched by canonical ID where they have one, otherwise by normalized name.
+ */
+
+import type { Channel } from './scraper';
+import type { ProviderChannels } from '../index';
+import { getCanonicalChannel, resolveCanonicalId } from './catalogue';
+import { escapeCsv } from './exporters';
+import { normalizeChannelName } from './normalize';
+
+/**
+ * A channel across the compared providers
+ * @property {string} key - Identity the channel was matched on, its canonical ID or normalized name
+ * @property {string} name - Catalogue name for canonical channels, otherwise the name of the first listing
+ * @property {string} [canonicalId] - ID of the matching canonical catalogue entry, if any
+ * @property {Record<string, string[]>} numbers - Numbers per provider name, only for providers carrying the channel
+ */
+export interface ComparedChannel {
+    key: string;
+    name: string;
+    canonicalId?: string;
+    numbers: Record<string, string[]>;
+}
+
+/**
+ * Comparison of several providers' lineups
+ * @property {string[]} providers - Compared providers, in the order given
+ * @property {ComparedChannel[]} channels - Every channel any provider carries, sorted by name
+ * @property {string[]} shared - Names of the channels every provider carries
+ * @property {Record<string, string[]>} exclusive - Names of the channels only this provider carries, per provider name
+ */
+export interface LineupComparison {
+    providers: string[];
+    channels: ComparedChannel[];
+    shared: string[];
+    exclusive: Record<string, string[]>;
+}
+
+/**
+ * Identifies a channel across providers
+ */
+const identify = (channel: Channel): { key: string; canonicalId?: string } => {
+    const canonicalId = channel.canonicalId || resolveCanonicalId(channel.name);
+    return canonicalId ? { key: canonicalId, canonicalId } : { key: normalizeChannelName(channel.name) };
+};
+
+/**
+ * Compares the lineups of several providers
+ * Lineups of the same provider, matched case-insensitively, are merged
+ * @param {ProviderChannels[]} lineups - Lineups to compare
+ * @returns {LineupComparison} Channel-by-provider matrix with the shared and exclusive channels
+ */
+export function compareLineups(lineups: ProviderChannels[]): LineupComparison {
+    const providers: string[] = [];
+    const channels = new Map<string, ComparedChannel>();
+
+    lineups.forEach(({ provider: name, channels: lineup }) => {
+        const provider = providers.find(existing => existing.toLowerCase() === name.toLowerCase()) || name;
+        if (!providers.includes(provider)) {
+            providers.push(provider);
+        }
+        lineup.forEach(channel => {
+            const { key, canonicalId } = identify(channel);
+            let compared = channels.get(key);
+            if (!compared) {
+                compared = {
+                    key,
+                    name: (canonicalId && getCanonicalChannel(canonicalId)?.name) || channel.name,
+                    ...(canonicalId && { canonicalId }),
+                    numbers: {}
+                };
+                channels.set(key, compared);
+            }
+            const numbers = compared.numbers[provider] = compared.numbers[provider] || [];
+            if (!numbers.includes(channel.number)) {
+                numbers.push(channel.number);
+            }
+        });
+    });
+
+    const sorted = Array.from(channels.values()).sort((a, b) => a.name.localeCompare(b.name));
+    const carriers = (channel: ComparedChannel) => Object.keys(channel.numbers);
+    return {
+        providers,
+        channels: sorted,
+        shared: sorted.filter(channel => carriers(channel).length === providers.length).map(channel => channel.name),
+        exclusive: Object.fromEntries(providers.map(provider => [
+            provider,
+            providers.length < 2 ? [] : sorted
+                .filter(channel => carriers(channel).length === 1 && channel.numbers[provider])
+                .map(channel => channel.name)
+        ]))
+    };
+}
+
+/**
+ * Formats a comparison as a table of channels by provider, followed by the shared and exclusive channels
+ * A provider's numbers for a channel are joined with "/", and "-" marks a provider not carrying it
+ * @param {LineupComparison} comparison - Comparison to format
+ * @returns {string} Table text
+ */
+export function formatComparisonTable(comparison: LineupComparison): string {
+    const header = ['Channel', ...comparison.providers];
+    const rows = comparison.channels.map(channel => [
+        channel.name,
+        ...comparison.providers.map(provider => channel.numbers[provider]?.join('/') || '-')
+    ]);
+    const widths = header.map((_, column) => Math.max(...[header, ...rows].map(row => row[column].length)));
+    const lines = [header, ...rows].map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+
+    lines.push('', `Shared by all ${comparison.providers.length} providers: ${comparison.shared.length}`);
+    comparison.providers.forEach(provider => {
+        const exclusive = comparison.exclusive[provider];
+        lines.push(`Only on ${provider}: ${exclusive.length}${exclusive.length ? ` (${exclusive.join(', ')})` : ''}`);
+    });
+    return lines.join('\n');
+}
+
+/**
+ * Formats a comparison as CSV with one column per provider
+ * A provider's numbers for a channel are joined with spaces, and the cell is empty when it does not carry it
+ * @param {LineupComparison} comparison - Comparison to format
+ * @returns {string} CSV text with a header row
+ */
+export function formatComparisonCsv(comparison: LineupComparison): string {
+    return [
+        ['channel', 'canonicalId', ...comparison.providers],
+        ...comparison.channels.map(channel => [
+            channel.name,
+            channel.canonicalId || '',
+            ...comparison.providers.map(provider => channel.numbers[provider]?.join(' ') || '')
+        ])
+    ].map(row => row.map(escapeCsv).join(',')).join('\n');
+}
@@ -0,0 +1,390 @@
+/**
+ * Scraper settings and configuration file
+ * Browser, retry, page load and output settings have package defaults that can be changed
+ * globally in a scrape-channels.config.json file (or an options object), and per provider
+ * in its ScraperConfig or in the file's providers section.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import randomUseragent from 'random-useragent';
+
+/**
+ * Page load event to wait for before scraping
+ */
+export type WaitUntil = 'load' | 'domcontentloaded' | 'networkidle' | 'commit';
+
+/**
+ * How the user agent is chosen for each scraper run
+ * - fixed: the userAgent setting on every run
+ * - round-robin: the next agent of userAgents on each run, the userAgent setting when none are listed
+ * - random: a random agent of userAgents on each run, or a random common browser agent when none are listed
+ */
+export type UserAgentRotation = 'fixed' | 'round-robin' | 'random';
+
+/**
+ * Proxy page requests are sent through
+ * @property {string} server - Proxy URL, e.g. "http://proxy:3128" or "socks5://proxy:1080"
+ * @property {string} [bypass] - Comma-separated hosts to connect to directly, ".example.com" also matching its subdomains
+ * @property {string} [username] - Username for proxy authentication
+ * @property {string} [password] - Password for proxy authentication
+ */
+export interface ProxySettings {
+    server: string;
+    bypass?: string;
+    username?: string;
+    password?: string;
+}
+
+/**
+ * Settings that can be set globally and overridden per provider
+ * @property {boolean} [headless] - Run the browser without a window
+ * @property {string} [userAgent] - User agent for page requests under the fixed rotation, a random one by default
+ * @property {string[]} [userAgents] - User agents the round-robin and random rotations choose from
+ * @property {UserAgentRotation} [userAgentRotation] - How each run's user agent is chosen, fixed by default
+ * @property {ProxySettings} [proxy] - Proxy to send page requests through, direct connections by default
+ * @property {{ concurrency?: number, interval?: number }} [rateLimit] - Per host: page loads running at once (unlimited when unset) and minimum milliseconds between the start of one and the next
+ * @property {boolean} [robotsTxt] - Check the host's robots.txt before loading a page and honour its Crawl-delay
+ * @property {string[]} [blockedResources] - Playwright resource types to abort, e.g. "image"
+ * @property {{ attempts?: number, delay?: number }} [retry] - Scrape attempts and base delay in milliseconds between them
+ * @property {{ timeout?: number, waitUntil?: WaitUntil }} [pageLoad] - Navigation timeout in milliseconds and load event to wait for
+ * @property {string} [outputDir] - Directory provider output files are written to
+ * @property {string} [snapshotDir] - Directory snapshots are recorded to and replayed from
+ * @property {string} [historyFile] - JSON-lines file every successful scrape is appended to, no history is kept when unset
+ * @property {string} [diagnosticsDir] - Directory a failed scrape saves its screenshot, HTML, console log, aborted requests and trace to, none are saved when unset
+ * @property {{ ttl?: number, staleWhileRevalidate?: number, dir?: string }} [cache] - Result cache: milliseconds a cached lineup is fresh for (caching is off when unset), milliseconds past that it is still served while refreshing in the background, and the directory cached lineups are kept in
+ */
+export interface ScraperSettings {
+    headless?: boolean;
+    userAgent?: string;
+    userAgents?: string[];
+    userAgentRotation?: UserAgentRotation;
+    proxy?: ProxySettings;
+    rateLimit?: { concurrency?: number; interval?: number };
+    robotsTxt?: boolean;
+    blockedResources?: string[];
+    retry?: { attempts?: number; delay?: number };
+    pageLoad?: { timeout?: number; waitUntil?: WaitUntil };
+    outputDir?: string;
+    snapshotDir?: string;
+    historyFile?: string;
+    diagnosticsDir?: string;
+    cache?: { ttl?: number; staleWhileRevalidate?: number; dir?: string };
+}
+
+/**
+ * Settings with every value filled in from the defaults
+ */
+export interface ResolvedSettings {
+    headless: boolean;
+    userAgent: string;
+    userAgents?: string[];
+    userAgentRotation: UserAgentRotation;
+    proxy?: ProxySettings;
+    rateLimit: { concurrency?: number; interval: number };
+    robotsTxt: boolean;
+    blockedResources: string[];
+    retry: { attempts: number; delay: number };
+    pageLoad: { timeout: number; waitUntil: WaitUntil };
+    outputDir: string;
+    snapshotDir: string;
+    historyFile?: string;
+    diagnosticsDir?: string;
+    cache: { ttl?: number; staleWhileRevalidate: number; dir: string };
+}
+
+/**
+ * Contents of a configuration file
+ * @property {Record<string, ScraperSettings>} [providers] - Settings per provider name, matched case-insensitively
+ */
+export interface ScrapeChannelsConfig extends ScraperSettings {
+    providers?: Record<string, ScraperSettings>;
+}
+
+/**
+ * Name of the configuration file discovered in the working directory
+ */
+export const CONFIG_FILE_NAME = 'scrape-channels.config.json';
+
+/**
+ * Directory provider files are written to and read from when no outputDir is set, data at the package root
+ */
+export const DEFAULT_OUTPUT_DIR = path.join(__dirname, '..', '..', 'data');
+
+const DEFAULT_SETTINGS: ResolvedSettings = {
+    headless: true,
+    userAgent: randomUseragent.getRandom(),
+    userAgentRotation: 'fixed',
+    rateLimit: {
+        interval: 0
+    },
+    robotsTxt: false,
+    blockedResources: ['image', 'stylesheet', 'font', 'media'],
+    retry: {
+        attempts: 1,
+        delay: 1000
+    },
+    pageLoad: {
+        timeout: 30000,
+        waitUntil: 'networkidle'
+    },
+    outputDir: DEFAULT_OUTPUT_DIR,
+    snapshotDir: path.join(__dirname, '..', '..', 'snapshots'),
+    cache: {
+        staleWhileRevalidate: 0,
+        dir: path.join(__dirname, '..', '..', 'cache')
+    }
+};
+
+const RESOURCE_TYPES = [
+    'document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack',
+    'xhr', 'fetch', 'eventsource', 'websocket', 'manifest', 'other'
+];
+const WAIT_UNTIL: WaitUntil[] = ['load', 'domcontentloaded', 'networkidle', 'commit'];
+const USER_AGENT_ROTATIONS: UserAgentRotation[] = ['fixed', 'round-robin', 'random'];
+const PROXY_PROTOCOLS = ['http:', 'https:', 'socks4:', 'socks5:'];
+
+const isProxyUrl = (value: unknown): boolean => {
+    try {
+        return typeof value === 'string' && PROXY_PROTOCOLS.includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks one level of settings, collecting a message per problem
+ */
+const checkSettings = (settings: unknown, at: string, problems: string[], allowProviders: boolean): void => {
+    const key = (name: string) => at ? `${at}.${name}` : name;
+    if (!isObject(settings)) {
+        problems.push(`${at || 'config'} must be an object`);
+        return;
+    }
+
+    Object.entries(settings).forEach(([name, value]) => {
+        switch (name) {
+            case 'headless':
+            case 'robotsTxt':
+                if (typeof value !== 'boolean') problems.push(`${key(name)} must be a boolean`);
+                break;
+            case 'userAgent':
+            case 'outputDir':
+            case 'snapshotDir':
+            case 'historyFile':
+            case 'diagnosticsDir':
+                if (typeof value !== 'string' || !value) problems.push(`${key(name)} must be a non-empty string`);
+                break;
+            case 'userAgents':
+                if (!Array.isArray(value) || !value.length || value.some(agent => typeof agent !== 'string' || !agent)) {
+                    problems.push(`${key(name)} must be a non-empty list of non-empty strings`);
+                }
+                break;
+            case 'userAgentRotation':
+                if (!USER_AGENT_ROTATIONS.includes(value as UserAgentRotation)) {
+                    problems.push(`${key(name)} must be one of: ${USER_AGENT_ROTATIONS.join(', ')}`);
+                }
+                break;
+            case 'proxy':
+                if (!isObject(value)) {
+                    problems.push(`${key(name)} must be an object`);
+                    break;
+                }
+                if (!('server' in value)) problems.push(`${key('proxy.server')} is required`);
+                Object.entries(value).forEach(([field, setting]) => {
+                    if (field === 'server') {
+                        if (!isProxyUrl(setting)) problems.push(`${key('proxy.server')} must be a URL with one of the protocols: ${PROXY_PROTOCOLS.join(', ')}`);
+                    } else if (field === 'bypass' || field === 'username' || field === 'password') {
+                        if (typeof setting !== 'string') problems.push(`${key(`proxy.${field}`)} must be a string`);
+                    } else {
+                        problems.push(`${key(`proxy.${field}`)} is not a known setting`);
+                    }
+                });
+                break;
+            case 'rateLimit':
+                if (!isObject(value)) {
+                    problems.push(`${key(name)} must be an object`);
+                    break;
+                }
+                Object.entries(value).forEach(([field, setting]) => {
+                    if (field === 'concurrency') {
+                        if (!Number.isInteger(setting) || (setting as number) < 1) problems.push(`${key('rateLimit.concurrency')} must be a positive integer`);
+                    } else if (field === 'interval') {
+                        if (typeof setting !== 'number' || setting < 0) problems.push(`${key('rateLimit.interval')} must be a non-negative number`);
+                    } else {
+                        problems.push(`${key(`rateLimit.${field}`)} is not a known setting`);
+                    }
+                });
+                break;
+            case 'blockedResources':
+                if (!Array.isArray(value) || value.some(type => !RESOURCE_TYPES.includes(type))) {
+                    problems.push(`${key(name)} must be a list of resource types: ${RESOURCE_TYPES.join(', ')}`);
+                }
+                break;
+            case 'retry':
+                if (!isObject(value)) {
+                    problems.push(`${key(name)} must be an object`);
+                    break;
+                }
+                Object.entries(value).forEach(([field, setting]) => {
+                    if (field === 'attempts') {
+                        if (!Number.isInteger(setting) || (setting as number) < 1) problems.push(`${key('retry.attempts')} must be a positive integer`);
+                    } else if (field === 'delay') {
+                        if (typeof setting !== 'number' || setting < 0) problems.push(`${key('retry.delay')} must be a non-negative number`);
+                    } else {
+                        problems.push(`${key(`retry.${field}`)} is not a known setting`);
+                    }
+                });
+                break;
+            case 'pageLoad':
+                if (!isObject(value)) {
+                    problems.push(`${key(name)} must be an object`);
+                    break;
+                }
+                Object.entries(value).forEach(([field, setting]) => {
+                    if (field === 'timeout') {
+                        if (typeof setting !== 'number' || setting < 0) problems.push(`${key('pageLoad.timeout')} must be a non-negative number`);
+                    } else if (field === 'waitUntil') {
+                        if (!WAIT_UNTIL.includes(setting as WaitUntil)) problems.push(`${key('pageLoad.waitUntil')} must be one of: ${WAIT_UNTIL.join(', ')}`);
+                    } else {
+                        problems.push(`${key(`pageLoad.${field}`)} is not a known setting`);
+                    }
+                });
+                break;
+            case 'cache':
+                if (!isObject(value)) {
+                    problems.push(`${key(name)} must be an object`);
+                    break;
+                }
+                Object.entries(value).forEach(([field, setting]) => {
+                    if (field === 'ttl' || field === 'staleWhileRevalidate') {
+                        if (typeof setting !== 'number' || setting < 0) problems.push(`${key(`cache.${field}`)} must be a non-negative number`);
+                    } else if (field === 'dir') {
+                        if (typeof setting !== 'string' || !setting) problems.push(`${key('cache.dir')} must be a non-empty string`);
+                    } else {
+                        problems.push(`${key(`cache.${field}`)} is not a known setting`);
+                    }
+                });
+                break;
+            case 'providers':
+                if (!allowProviders) {
+                    problems.push(`${key(name)} is only allowed at the top level`);
+                } else if (!isObject(value)) {
+                    problems.push(`${key(name)} must be an object`);
+                } else {
+                    Object.entries(value).forEach(([provider, providerSettings]) => {
+                        checkSettings(providerSettings, `providers.${provider}`, problems, false);
+                    });
+                }
+                break;
+            default:
+                problems.push(`${key(name)} is not a known setting`);
+        }
+    });
+};
+
+/**
+ * Validates configuration against the settings schema
+ * @param {unknown} data - Parsed configuration
+ * @param {string} [source] - Where the configuration came from, used in the error message
+ * @returns {ScrapeChannelsConfig} The configuration
+ * @throws {Error} Listing every problem if the configuration is invalid
+ */
+export function validateConfig(data: unknown, source: string = 'config'): ScrapeChannelsConfig {
+    const problems: string[] = [];
+    checkSettings(data, '', problems, true);
+    if (problems.length) {
+        throw new Error(`Invalid configuration in ${source}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    }
+    return data as ScrapeChannelsConfig;
+}
+
+/**
+ * Resolves the directories and files of a settings object against a base directory
+ */
+const resolveDirs = (settings: ScraperSettings, baseDir: string): ScraperSettings => ({
+    ...settings,
+    ...(settings.outputDir && { outputDir: path.resolve(baseDir, settings.outputDir) }),
+    ...(settings.snapshotDir && { snapshotDir: path.resolve(baseDir, settings.snapshotDir) }),
+    ...(settings.historyFile && { historyFile: path.resolve(baseDir, settings.historyFile) }),
+    ...(settings.diagnosticsDir && { diagnosticsDir: path.resolve(baseDir, settings.diagnosticsDir) }),
+    ...(settings.cache?.dir && { cache: { ...settings.cache, dir: path.resolve(baseDir, settings.cache.dir) } })
+});
+
+/**
+ * Loads and validates a configuration file
+ * Without a path, scrape-channels.config.json is looked up in the working directory.
+ * Relative directories in the file are resolved against the file's directory.
+ * @param {string} [file] - Path to the configuration file
+ * @param {string} [cwd] - Directory to resolve the path against and discover the file in
+ * @returns {ScrapeChannelsConfig} The configuration, empty when no file was given or found
+ * @throws {Error} If a given file does not exist, or the file cannot be parsed or is invalid
+ */
+export function loadConfig(file?: string, cwd: string = process.cwd()): ScrapeChannelsConfig {
+    const filePath = path.resolve(cwd, file || CONFIG_FILE_NAME);
+    if (!fs.existsSync(filePath)) {
+        if (file) {
+            throw new Error(`Config file ${filePath} not found`);
+        }
+        return {};
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Could not parse config file ${filePath}: ${(error as Error).message}`);
+    }
+
+    const { providers, ...settings } = validateConfig(data, filePath);
+    const baseDir = path.dirname(filePath);
+    return {
+        ...resolveDirs(settings, baseDir),
+        ...(providers && {
+            providers: Object.fromEntries(Object.entries(providers).map(([name, value]) => [name, resolveDirs(value, baseDir)]))
+        })
+    };
+}
+
+/**
+ * Merges settings, later layers overriding earlier ones
+ * @param {...(ScraperSettings | undefined)} layers - Settings from least to most specific
+ * @returns {ScraperSettings} Merged settings, without any providers section
+ */
+export function mergeSettings(...layers: (ScraperSettings | undefined)[]): ScraperSettings {
+    return layers.reduce<ScraperSettings>((merged, layer) => {
+        if (!layer) return merged;
+        const { providers, ...settings } = layer as ScrapeChannelsConfig;
+        return {
+            ...merged,
+            ...settings,
+            ...((merged.retry || settings.retry) && { retry: { ...merged.retry, ...settings.retry } }),
+            ...((merged.pageLoad || settings.pageLoad) && { pageLoad: { ...merged.pageLoad, ...settings.pageLoad } }),
+            ...((merged.rateLimit || settings.rateLimit) && { rateLimit: { ...merged.rateLimit, ...settings.rateLimit } }),
+            ...((merged.cache || settings.cache) && { cache: { ...merged.cache, ...settings.cache } })
+        };
+    }, {});
+}
+
+/**
+ * Fills in settings from the package defaults
+ * @param {...(ScraperSettings | undefined)} layers - Settings from least to most specific
+ * @returns {ResolvedSettings} Complete settings
+ */
+export function resolveSettings(...layers: (ScraperSettings | undefined)[]): ResolvedSettings {
+    return mergeSettings(DEFAULT_SETTINGS, ...layers) as ResolvedSettings;
+}
+
+/**
+ * Finds the settings a configuration gives for a provider
+ * @param {ScrapeChannelsConfig} [config] - Configuration
+ * @param {string} name - Provider name, matched case-insensitively
+ * @returns {ScraperSettings | undefined} The provider's settings, if any
+ */
+export function getProviderSettings(config: ScrapeChannelsConfig | undefined, name: string): ScraperSettings | undefined {
+    const entry = Object.entries(config?.providers || {}).find(([provider]) => provider.toLowerCase() === name.toLowerCase());
+    return entry?.[1];
+}
@@ -0,0 +1,157 @@
+/**
+ * Failure diagnostics
+ * When a diagnostics directory is configured, a scraper run that fails or whose lineup fails
+ * validation saves what is needed to see why without reproducing it by hand: the error, the
+ * rendered HTML, a full-page screenshot, the console log, the requests that were aborted or
+ * failed, and a Playwright trace. Each failed run gets its own directory.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type playwright from 'playwright';
+
+/**
+ * Files saved for a failed scraper run, as absolute paths
+ * Only the files that could be captured are set; http mode has no browser, so it saves the error and HTML alone
+ * @property {string} dir - Directory of the run's files
+ * @property {string} reason - Why they were saved, the error or validation failure message
+ * @property {string} error - error.txt, the error with its stack
+ * @property {string} [html] - page.html, the rendered or fetched HTML
+ * @property {string} [screenshot] - screenshot.png, a full-page screenshot
+ * @property {string} [consoleLog] - console.log, the page's console messages and uncaught errors
+ * @property {string} [abortedRequests] - aborted-requests.txt, requests that were blocked or failed, one per line
+ * @property {string} [trace] - trace.zip, open with "npx playwright show-trace"
+ */
+export interface DiagnosticsBundle {
+    dir: string;
+    reason: string;
+    error: string;
+    html?: string;
+    screenshot?: string;
+    consoleLog?: string;
+    abortedRequests?: string;
+    trace?: string;
+}
+
+/**
+ * What was captured of a failed run
+ * @property {string} [html] - Rendered or fetched HTML
+ * @property {Buffer} [screenshot] - PNG screenshot
+ * @property {string[]} [consoleLog] - Console lines
+ * @property {string[]} [abortedRequests] - Aborted request lines
+ */
+export interface DiagnosticsCapture {
+    html?: string;
+    screenshot?: Buffer;
+    consoleLog?: string[];
+    abortedRequests?: string[];
+}
+
+/**
+ * Records a browser context's console messages, failed requests and trace until the run ends
+ */
+export interface ContextDiagnostics {
+    /**
+     * Saves the context's diagnostics, with the screenshot and HTML of its last page
+     * @param {string} dir - Directory to save to
+     * @param {Error} error - Why the run failed
+     * @param {number} timeout - Milliseconds the screenshot may take
+     * @returns {Promise<DiagnosticsBundle>} The saved files
+     */
+    save: (dir: string, error: Error, timeout: number) => Promise<DiagnosticsBundle>;
+    /** Stops recording without saving */
+    discard: () => Promise<void>;
+}
+
+/**
+ * Names the directory of a failed run, unique per run and sorted by time
+ * @param {string} baseDir - Configured diagnostics directory
+ * @param {string} name - Provider or snapshot name of the run
+ * @param {Date} [date] - Time of the run
+ * @returns {string} Absolute path, e.g. diagnostics/2026-03-31T18-04-05-123Z-sky
+ */
+export function getDiagnosticsDir(baseDir: string, name: string, date: Date = new Date()): string {
+    const stamp = date.toISOString().replace(/[:.]/g, '-');
+    return path.resolve(baseDir, `${stamp}-${name.toLowerCase().replace(/[^a-z0-9-]+/g, '-')}`);
+}
+
+/**
+ * Writes the captured diagnostics of a failed run
+ * @param {string} dir - Directory to write to, created if missing
+ * @param {Error} error - Why the run failed
+ * @param {DiagnosticsCapture} [capture] - What was captured of the page
+ * @returns {DiagnosticsBundle} The written files
+ */
+export function writeDiagnostics(dir: string, error: Error, capture: DiagnosticsCapture = {}): DiagnosticsBundle {
+    fs.mkdirSync(dir, { recursive: true });
+    const write = (file: string, content: string | Buffer): string => {
+        const filePath = path.join(dir, file);
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    };
+    const lines = (entries: string[]): string => entries.map(entry => `${entry}\n`).join('');
+
+    return {
+        dir,
+        reason: error.message,
+        error: write('error.txt', `${error.stack || `${error.name}: ${error.message}`}\n`),
+        ...(capture.html !== undefined && { html: write('page.html', capture.html) }),
+        ...(capture.screenshot && { screenshot: write('screenshot.png', capture.screenshot) }),
+        ...(capture.consoleLog && { consoleLog: write('console.log', lines(capture.consoleLog)) }),
+        ...(capture.abortedRequests && { abortedRequests: write('aborted-requests.txt', lines(capture.abortedRequests)) })
+    };
+}
+
+/**
+ * Starts recording a browser context's diagnostics
+ * Call before the context opens its page, so the trace and logs cover the whole run
+ * @param {playwright.BrowserContext} context - Context of the run
+ * @returns {Promise<ContextDiagnostics>} The recording
+ */
+export async function recordContextDiagnostics(context: playwright.BrowserContext): Promise<ContextDiagnostics> {
+    const consoleLog: string[] = [];
+    const abortedRequests: string[] = [];
+    const time = () => new Date().toISOString();
+
+    context.on('console', message => {
+        consoleLog.push(`${time()} [${message.type()}] ${message.text()}`);
+    });
+    context.on('weberror', webError => {
+        consoleLog.push(`${time()} [pageerror] ${webError.error().message}`);
+    });
+    context.on('requestfailed', request => {
+        abortedRequests.push(`${request.method()} ${request.url()} (${request.resourceType()}): ${request.failure()?.errorText || 'failed'}`);
+    });
+    await context.tracing.start({ screenshots: true, snapshots: true });
+
+    let recording = true;
+    const stopTracing = async (tracePath?: string): Promise<boolean> => {
+        if (!recording) return false;
+        recording = false;
+        try {
+            await context.tracing.stop(tracePath ? { path: tracePath } : undefined);
+            return !!tracePath;
+        } catch {
+            return false;
+        }
+    };
+
+    return {
+        save: async (dir, error, timeout) => {
+            // A failed navigation leaves its page open, so the last page is the one that failed
+            const pages = context.pages();
+            const page = pages[pages.length - 1];
+            const capture: DiagnosticsCapture = { consoleLog, abortedRequests };
+            if (page) {
+                capture.html = await page.content().catch(() => undefined);
+                capture.screenshot = await page.screenshot({ fullPage: true, timeout }).catch(() => undefined);
+            }
+            const bundle = writeDiagnostics(dir, error, capture);
+            const trace = path.join(dir, 'trace.zip');
+            return await stopTracing(trace) ? { ...bundle, trace } : bundle;
+        },
+        discard: async () => {
+            await stopTracing();
+        }
+    };
+}
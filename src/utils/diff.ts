@@ -0,0 +1,191 @@
+/**
+ * Lineup diff engine
+ * Compares two scrape runs and reports added, removed, renumbered and renamed channels per provider.
+ * Channels are identified by their canonical ID where they have one, otherwise by name.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Channel } from './scraper';
+import type { ProviderChannels } from '../index';
+import { MANIFEST_FILE_NAME } from './fileUtils';
+
+/**
+ * A channel whose number changed between runs
+ * @property {string} name - Channel name in the newer run
+ * @property {string} from - Number in the older run
+ * @property {string} to - Number in the newer run
+ */
+export interface RenumberedChannel {
+    name: string;
+    from: string;
+    to: string;
+}
+
+/**
+ * A channel whose name changed between runs
+ * @property {string} number - Channel number in the newer run
+ * @property {string} from - Name in the older run
+ * @property {string} to - Name in the newer run
+ */
+export interface RenamedChannel {
+    number: string;
+    from: string;
+    to: string;
+}
+
+/**
+ * Differences between two runs of a single provider
+ */
+export interface LineupDiff {
+    provider: string;
+    added: Channel[];
+    removed: Channel[];
+    renumbered: RenumberedChannel[];
+    renamed: RenamedChannel[];
+}
+
+const channelKey = (channel: Channel): string => channel.canonicalId || channel.name;
+
+/**
+ * Indexes channels by identity, keeping the first occurrence of each
+ */
+const indexChannels = (channels: Channel[]): Map<string, Channel> => {
+    const index = new Map<string, Channel>();
+    channels.forEach(channel => {
+        if (!index.has(channelKey(channel))) {
+            index.set(channelKey(channel), channel);
+        }
+    });
+    return index;
+};
+
+/**
+ * Compares two lineups of the same provider
+ * A removed and an added channel that share a number are reported as a rename
+ * @param {string} provider - Provider name
+ * @param {Channel[]} before - Channels from the older run
+ * @param {Channel[]} after - Channels from the newer run
+ * @returns {LineupDiff} Differences between the runs
+ */
+export function diffChannels(provider: string, before: Channel[], after: Channel[]): LineupDiff {
+    const beforeIndex = indexChannels(before);
+    const afterIndex = indexChannels(after);
+    const diff: LineupDiff = { provider, added: [], removed: [], renumbered: [], renamed: [] };
+
+    afterIndex.forEach((channel, key) => {
+        const previous = beforeIndex.get(key);
+        if (!previous) {
+            diff.added.push(channel);
+            return;
+        }
+        if (previous.name !== channel.name) {
+            diff.renamed.push({ number: channel.number, from: previous.name, to: channel.name });
+        }
+        if (previous.number !== channel.number) {
+            diff.renumbered.push({ name: channel.name, from: previous.number, to: channel.number });
+        }
+    });
+
+    beforeIndex.forEach((channel, key) => {
+        if (afterIndex.has(key)) return;
+
+        const replacement = diff.added.findIndex(added => added.number === channel.number);
+        if (replacement === -1) {
+            diff.removed.push(channel);
+        } else {
+            diff.renamed.push({ number: channel.number, from: channel.name, to: diff.added[replacement].name });
+            diff.added.splice(replacement, 1);
+        }
+    });
+
+    return diff;
+}
+
+/**
+ * Compares two scrape runs across all providers
+ * Providers are matched case-insensitively; a provider missing from one run has all its channels added or removed
+ * @param {ProviderChannels[]} before - Lineups from the older run
+ * @param {ProviderChannels[]} after - Lineups from the newer run
+ * @returns {LineupDiff[]} Differences per provider, in the order providers first appear
+ */
+export function diffLineups(before: ProviderChannels[], after: ProviderChannels[]): LineupDiff[] {
+    const providers = new Map<string, { name: string; before: Channel[]; after: Channel[] }>();
+    const entry = (name: string) => {
+        const key = name.toLowerCase();
+        let found = providers.get(key);
+        if (!found) {
+            found = { name, before: [], after: [] };
+            providers.set(key, found);
+        }
+        return found;
+    };
+
+    before.forEach(lineup => { entry(lineup.provider).before = lineup.channels; });
+    after.forEach(lineup => { entry(lineup.provider).after = lineup.channels; });
+
+    return Array.from(providers.values()).map(({ name, before, after }) => diffChannels(name, before, after));
+}
+
+/**
+ * Checks whether a diff contains any changes
+ * @param {LineupDiff} diff - Diff to check
+ * @returns {boolean} True if anything was added, removed, renumbered or renamed
+ */
+export function hasChanges(diff: LineupDiff): boolean {
+    return diff.added.length + diff.removed.length + diff.renumbered.length + diff.renamed.length > 0;
+}
+
+/**
+ * Formats lineup diffs as a human-readable report
+ * @param {LineupDiff[]} diffs - Diffs to format
+ * @returns {string} Report text
+ */
+export function formatLineupDiff(diffs: LineupDiff[]): string {
+    return diffs.map(diff => {
+        const lines = [`${diff.provider}:`];
+        if (!hasChanges(diff)) {
+            lines.push('  no changes');
+        }
+        diff.added.forEach(c => lines.push(`  + ${c.number} ${c.name}`));
+        diff.removed.forEach(c => lines.push(`  - ${c.number} ${c.name}`));
+        diff.renumbered.forEach(c => lines.push(`  # ${c.name}: ${c.from} -> ${c.to}`));
+        diff.renamed.forEach(c => lines.push(`  ~ ${c.number}: ${c.from} -> ${c.to}`));
+        return lines.join('\n');
+    }).join('\n\n');
+}
+
+/**
+ * Reads a JSON file of channels, as written per provider or as the CLI's combined output
+ */
+const readLineupFile = (filePath: string): ProviderChannels[] => {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (!Array.isArray(data)) {
+        throw new Error(`${filePath} does not contain a channel lineup`);
+    }
+    if (data.length > 0 && Array.isArray(data[0]?.channels)) {
+        return data as ProviderChannels[];
+    }
+    return [{ provider: path.basename(filePath, '.json'), channels: data as Channel[] }];
+};
+
+/**
+ * Loads the lineups of a scrape run for diffing
+ * Accepts a directory written by writeResultsToFiles (its manifest.json is skipped), a single provider JSON file,
+ * or a JSON file of ProviderChannels as printed by the CLI
+ * @param {string} target - File or directory path
+ * @returns {ProviderChannels[]} Lineups in the run
+ * @throws {Error} If the path does not exist or does not contain lineups
+ */
+export function loadLineups(target: string): ProviderChannels[] {
+    if (!fs.existsSync(target)) {
+        throw new Error(`${target} does not exist`);
+    }
+    if (!fs.statSync(target).isDirectory()) {
+        return readLineupFile(target);
+    }
+    return fs.readdirSync(target)
+        .filter(file => path.extname(file) === '.json' && file !== MANIFEST_FILE_NAME)
+        .sort()
+        .flatMap(file => readLineupFile(path.join(target, file)));
+}
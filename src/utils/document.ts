@@ -0,0 +1,206 @@
+/**
+ * Lineup documents
+ * The row/column API lineups are extracted through. A page rendered in Chromium and HTML
+ * fetched over plain HTTP and parsed in Node both read as a LineupDocument, so the same
+ * extraction works in either mode and only pages that need JavaScript need a browser.
+ */
+
+import * as cheerio from 'cheerio';
+import http from 'http';
+import https from 'https';
+import type net from 'net';
+import tls from 'tls';
+import type { Page } from 'playwright';
+import type { ProxySettings } from './config';
+
+/**
+ * How a provider's page is loaded
+ * - browser: rendered in Chromium, for pages that build their lineup with JavaScript
+ * - http: fetched with a plain HTTP request and parsed without a browser
+ */
+export type ExtractionMode = 'browser' | 'http';
+
+/**
+ * Text of a row's cells, keyed by column name
+ */
+export type RowCells = Record<string, string>;
+
+/**
+ * A loaded lineup page
+ * @property {string} url - URL the page was loaded from
+ * @property {Function} rows - Reads every row matching a selector, with the trimmed text of the first element matching each column's selector within the row, or an empty string
+ * @property {Function} html - The page's HTML
+ */
+export interface LineupDocument {
+    url: string;
+    rows: (rowSelector: string, columns: Record<string, string>) => Promise<RowCells[]>;
+    html: () => Promise<string>;
+}
+
+/**
+ * Reads a page rendered in Chromium as a lineup document
+ * @param {Page} page - Loaded Playwright page
+ * @param {string} url - URL the page was loaded from
+ * @returns {LineupDocument} The document
+ */
+export function fromPage(page: Page, url: string): LineupDocument {
+    return {
+        url,
+        // The callback runs in the browser, so it only uses the columns passed to it
+        rows: (rowSelector, columns) => page.$$eval(rowSelector, (rows, selectors) => rows.map((row) => {
+            const cells: Record<string, string> = {};
+            Object.entries(selectors).forEach(([column, selector]) => {
+                cells[column] = (selector && row.querySelector(selector)?.textContent?.trim()) || '';
+            });
+            return cells;
+        }), columns),
+        html: () => page.content()
+    };
+}
+
+/**
+ * Parses HTML as a lineup document
+ * @param {string} html - Page HTML
+ * @param {string} url - URL the HTML was loaded from
+ * @returns {LineupDocument} The document
+ */
+export function fromHtml(html: string, url: string): LineupDocument {
+    const $ = cheerio.load(html);
+    return {
+        url,
+        rows: async (rowSelector, columns) => $(rowSelector).toArray().map(row => Object.fromEntries(
+            Object.entries(columns).map(([column, selector]) => [
+                column,
+                selector ? $(row).find(selector).first().text().trim() : ''
+            ])
+        )),
+        html: async () => html
+    };
+}
+
+/**
+ * Options for plain HTTP requests
+ * @property {string} [userAgent] - User agent header
+ * @property {number} [timeout] - Milliseconds before the request is aborted, 0 or unset for none
+ * @property {ProxySettings} [proxy] - HTTP(S) proxy to send the request through
+ * @property {AbortSignal} [signal] - Aborts the request, which then rejects with the signal's reason
+ */
+export interface FetchOptions {
+    userAgent?: string;
+    timeout?: number;
+    proxy?: ProxySettings;
+    signal?: AbortSignal;
+}
+
+/**
+ * A plain HTTP response
+ * @property {number} status - HTTP status code
+ * @property {string} body - Response body
+ */
+export interface FetchedText {
+    status: number;
+    body: string;
+}
+
+/**
+ * Whether a host is listed in a proxy's comma-separated bypass list
+ */
+const bypassesProxy = (hostname: string, bypass: string = ''): boolean => bypass
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .some(entry => entry && (entry === hostname || (entry.startsWith('.') && (hostname.endsWith(entry) || hostname === entry.slice(1)))));
+
+/**
+ * Sends a GET request through an HTTP(S) proxy
+ * Plain HTTP URLs are requested from the proxy directly, HTTPS URLs through a CONNECT tunnel
+ */
+const fetchThroughProxy = (url: URL, headers: Record<string, string>, proxy: ProxySettings, signal: AbortSignal): Promise<FetchedText> => {
+    const proxyUrl = new URL(proxy.server);
+    const transport = proxyUrl.protocol === 'https:' ? https : http;
+    const proxyHeaders: Record<string, string> = proxy.username
+        ? { 'proxy-authorization': `Basic ${Buffer.from(`${proxy.username}:${proxy.password || ''}`).toString('base64')}` }
+        : {};
+    const target = { host: url.host, ...headers };
+
+    return new Promise<FetchedText>((resolve, reject) => {
+        const onResponse = (response: http.IncomingMessage) => {
+            const chunks: Buffer[] = [];
+            response.on('data', chunk => chunks.push(chunk));
+            response.on('end', () => resolve({ status: response.statusCode || 0, body: Buffer.concat(chunks).toString('utf8') }));
+            response.on('error', reject);
+        };
+        const request = url.protocol === 'https:'
+            ? transport.request({ host: proxyUrl.hostname, port: proxyUrl.port, method: 'CONNECT', path: `${url.hostname}:${url.port || 443}`, headers: proxyHeaders, signal })
+            : transport.request({ host: proxyUrl.hostname, port: proxyUrl.port, path: url.href, headers: { ...proxyHeaders, ...target }, signal }, onResponse);
+        request.on('connect', (response: http.IncomingMessage, socket: net.Socket) => {
+            if (response.statusCode !== 200) {
+                socket.destroy();
+                reject(new Error(`Proxy ${proxyUrl.host} refused to connect to ${url.host} with HTTP ${response.statusCode}`));
+                return;
+            }
+            https.request(url, {
+                headers: target,
+                signal,
+                createConnection: () => tls.connect({ socket, servername: url.hostname })
+            }, onResponse).on('error', reject).end();
+        });
+        request.on('error', reject);
+        request.end();
+    });
+};
+
+/**
+ * Sends a plain HTTP GET request, through the proxy unless the host bypasses it
+ * @param {string} url - URL to request
+ * @param {FetchOptions} [options] - User agent, timeout, proxy and abort signal
+ * @returns {Promise<FetchedText>} The response status and body, whatever the status
+ * @throws {Error} If the request fails, times out or is aborted, or the proxy is a SOCKS proxy, which only browser mode supports
+ */
+export async function fetchText(url: string, { userAgent, timeout, proxy, signal }: FetchOptions = {}): Promise<FetchedText> {
+    const headers: Record<string, string> = {
+        accept: 'text/html,application/xhtml+xml',
+        ...(userAgent && { 'user-agent': userAgent })
+    };
+    const target = new URL(url);
+    const viaProxy = proxy && !bypassesProxy(target.hostname, proxy.bypass);
+    if (viaProxy && !/^https?:$/.test(new URL(proxy.server).protocol)) {
+        throw new Error(`Proxy ${proxy.server} is not supported in http mode, only HTTP(S) proxies are`);
+    }
+
+    // One signal for the caller's cancellation and the request timeout
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    const timer = timeout ? setTimeout(() => controller.abort(new Error(`GET ${url} timed out after ${timeout}ms`)), timeout) : undefined;
+    if (signal?.aborted) {
+        onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        if (viaProxy) {
+            return await fetchThroughProxy(target, headers, proxy, controller.signal);
+        }
+        const response = await fetch(url, { headers, signal: controller.signal });
+        return { status: response.status, body: await response.text() };
+    } catch (error) {
+        throw controller.signal.aborted ? controller.signal.reason : error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+/**
+ * Fetches a page's HTML with a plain HTTP GET request
+ * @param {string} url - Page URL
+ * @param {FetchOptions} [options] - User agent, milliseconds before the request is aborted (0 for none), proxy and abort signal
+ * @returns {Promise<string>} The response body
+ * @throws {Error} If the request fails, times out or returns a non-2xx status
+ */
+export async function fetchHtml(url: string, options: FetchOptions = {}): Promise<string> {
+    const { status, body } = await fetchText(url, options);
+    if (status < 200 || status > 299) {
+        throw new Error(`GET ${url} failed with HTTP ${status}`);
+    }
+    return body;
+}
@@ -0,0 +1,93 @@
+/**
+ * Scrape progress events
+ * Each provider run reports when it starts, when its page has loaded, how many rows it
+ * extracted, when a failed attempt is retried, and how it ended. Events carry the provider
+ * name and an epoch millisecond timestamp.
+ */
+
+import type { ScrapeStatus } from './abort';
+import type { DiagnosticsBundle } from './diagnostics';
+import type { Logger } from './logger';
+
+/**
+ * A progress event of a provider run
+ * - started: the provider run began
+ * - navigated: the page finished loading, from the live site or a replayed snapshot
+ * - rows-extracted: the scrape function returned rows, and this many were valid channels
+ * - retry-scheduled: an attempt failed and another is scheduled after the delay
+ * - diagnostics-saved: the page failed or its lineup failed validation, and its diagnostics were saved
+ * - source-failed: a source failed to load or its lineup failed validation, the next source is tried
+ * - finished: the run succeeded, possibly from the result cache
+ * - failed: the run failed, was cancelled or timed out, as its status tells
+ */
+export type ScrapeEvent = { provider: string; timestamp: number } & (
+    | { type: 'started'; url: string }
+    | { type: 'navigated'; url: string; replay: boolean }
+    | { type: 'rows-extracted'; rows: number; channels: number }
+    | { type: 'retry-scheduled'; attempt: number; delay: number; error: string }
+    | { type: 'diagnostics-saved'; url: string; diagnostics: DiagnosticsBundle }
+    | { type: 'source-failed'; url: string; error: string; next: string }
+    | { type: 'finished'; channelCount: number; duration: number; fromCache: boolean; warned: boolean }
+    | { type: 'failed'; duration: number; error: string; status: Exclude<ScrapeStatus, 'succeeded'> }
+);
+
+/**
+ * Receives progress events
+ */
+export type ScrapeEventListener = (event: ScrapeEvent) => void;
+
+/**
+ * An event before the provider name and timestamp are added
+ */
+export type ScrapeEventData = ScrapeEvent extends infer E
+    ? E extends unknown ? Omit<E, 'provider' | 'timestamp'> : never
+    : never;
+
+/**
+ * Events reported by a single scraper run
+ */
+export type ScraperProgress = Extract<ScrapeEventData, { type: 'navigated' | 'rows-extracted' | 'retry-scheduled' | 'diagnostics-saved' }>;
+
+const seconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Logs a progress event at a level matching its importance
+ * Retries and source failovers are warnings, failures errors, page loads debug and the rest info
+ * @param {Logger} logger - Logger to write to
+ * @param {ScrapeEvent} event - Event to log, also passed as the message fields
+ */
+export function logScrapeEvent(logger: Logger, event: ScrapeEvent): void {
+    const { type, provider, timestamp, ...details } = event;
+    const fields = { event: type, provider, ...details };
+
+    switch (event.type) {
+        case 'started':
+            logger.info(`${provider}: scraping ${event.url}`, fields);
+            break;
+        case 'navigated':
+            logger.debug(`${provider}: ${event.replay ? 'snapshot' : 'page'} loaded`, fields);
+            break;
+        case 'rows-extracted':
+            logger.info(`${provider}: extracted ${event.rows} rows, ${event.channels} channels`, fields);
+            break;
+        case 'retry-scheduled':
+            logger.warn(`${provider}: attempt ${event.attempt} failed (${event.error}), retrying in ${event.delay}ms`, fields);
+            break;
+        case 'diagnostics-saved':
+            logger.info(`${provider}: diagnostics of ${event.url} saved to ${event.diagnostics.dir}`, fields);
+            break;
+        case 'source-failed':
+            logger.warn(`${provider}: ${event.url} failed (${event.error}), trying ${event.next}`, fields);
+            break;
+        case 'finished':
+            logger.info(`${provider}: finished with ${event.channelCount} channels in ${seconds(event.duration)}${event.fromCache ? ' from cache' : ''}`, fields);
+            break;
+        case 'failed':
+            if (event.status === 'failed') {
+                logger.error(`${provider}: failed after ${seconds(event.duration)}: ${event.error}`, fields);
+            } else {
+                logger.warn(`${provider}: ${event.status === 'cancelled' ? 'cancelled' : 'timed out'} after ${seconds(event.duration)}: ${event.error}`, fields);
+            }
+            break;
+    }
+}
@@ -0,0 +1,168 @@
+/**
+ * Output format exporters
+ * Converts scraped channel lineups into the formats consumed by IPTV tooling.
+ * Built-in formats are JSON, M3U, XMLTV and CSV; more can be registered at runtime.
+ */
+
+import type { ProviderChannels } from '../index';
+
+/**
+ * Converts provider lineups into a serialised output format
+ * @property {string} name - Format name used to select the exporter, e.g. with --format
+ * @property {string} extension - File extension for written files, without the dot
+ * @property {Function} export - Serialises one or more provider lineups
+ */
+export interface Exporter {
+    name: string;
+    extension: string;
+    export: (lineups: ProviderChannels[]) => string;
+}
+
+const XMLTV_GENERATOR = 'scrape-channel-listings';
+
+const exporters = new Map<string, Exporter>();
+
+/**
+ * Escapes a value for use in an XML text node or attribute
+ */
+const escapeXml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Escapes a value for use in an M3U attribute, which cannot contain double quotes
+ */
+const escapeM3uAttribute = (value: string): string => value.replace(/"/g, "'");
+
+/**
+ * Escapes a CSV field, quoting it when it contains a delimiter, quote or newline
+ */
+export const escapeCsv = (value: string): string => /[",\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+/**
+ * Builds an XMLTV channel id from the channel name and provider, e.g. "bbcone.sky"
+ */
+const toXmltvId = (name: string, provider: string): string => {
+    const slug = (value: string) => value.toLowerCase().replace(/&/g, 'and').replace(/\+/g, 'plus').replace(/[^a-z0-9]/g, '');
+    return `${slug(name)}.${slug(provider)}`;
+};
+
+/**
+ * JSON exporter
+ * A single lineup is written as a plain Channel array, several as ProviderChannels
+ */
+const jsonExporter: Exporter = {
+    name: 'json',
+    extension: 'json',
+    export: (lineups) => JSON.stringify(lineups.length === 1 ? lineups[0].channels : lineups, null, 2)
+};
+
+/**
+ * M3U playlist skeleton with channel numbers and names; stream URLs are left blank
+ */
+const m3uExporter: Exporter = {
+    name: 'm3u',
+    extension: 'm3u',
+    export: (lineups) => {
+        const lines = ['#EXTM3U'];
+        lineups.forEach(({ provider, channels }) => {
+            channels.forEach(channel => {
+                lines.push(
+                    `#EXTINF:-1 tvg-chno="${escapeM3uAttribute(channel.number)}" tvg-name="${escapeM3uAttribute(channel.name)}" group-title="${escapeM3uAttribute(provider)}",${channel.name}`,
+                    ''
+                );
+            });
+        });
+        return lines.join('\n');
+    }
+};
+
+/**
+ * XMLTV document containing a <channel> element per channel
+ */
+const xmltvExporter: Exporter = {
+    name: 'xmltv',
+    extension: 'xml',
+    export: (lineups) => {
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<!DOCTYPE tv SYSTEM "xmltv.dtd">',
+            `<tv generator-info-name="${XMLTV_GENERATOR}">`
+        ];
+        lineups.forEach(({ provider, channels }) => {
+            channels.forEach(channel => {
+                lines.push(
+                    `  <channel id="${escapeXml(toXmltvId(channel.name, provider))}">`,
+                    `    <display-name>${escapeXml(channel.name)}</display-name>`,
+                    `    <display-name>${escapeXml(channel.number)}</display-name>`,
+                    '  </channel>'
+                );
+            });
+        });
+        lines.push('</tv>');
+        return lines.join('\n');
+    }
+};
+
+/**
+ * CSV with a header row and one row per channel
+ */
+const csvExporter: Exporter = {
+    name: 'csv',
+    extension: 'csv',
+    export: (lineups) => {
+        const rows = [['provider', 'number', 'name']];
+        lineups.forEach(({ provider, channels }) => {
+            channels.forEach(channel => rows.push([provider, channel.number, channel.name]));
+        });
+        return rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+    }
+};
+
+/**
+ * Registers an exporter, replacing any existing exporter with the same name
+ * @param {Exporter} exporter - Exporter to register
+ */
+export function registerExporter(exporter: Exporter): void {
+    exporters.set(exporter.name.toLowerCase(), exporter);
+}
+
+/**
+ * Looks up an exporter by format name
+ * @param {string} format - Format name, matched case-insensitively
+ * @returns {Exporter} The registered exporter
+ * @throws {Error} If no exporter is registered for the format
+ */
+export function getExporter(format: string): Exporter {
+    const exporter = exporters.get(format.toLowerCase());
+    if (!exporter) {
+        throw new Error(`Unknown format "${format}", expected one of: ${listExporters().join(', ')}`);
+    }
+    return exporter;
+}
+
+/**
+ * Lists the names of all registered formats
+ * @returns {string[]} Format names
+ */
+export function listExporters(): string[] {
+    return Array.from(exporters.keys());
+}
+
+/**
+ * Serialises provider lineups in the given format
+ * @param {ProviderChannels[]} lineups - Provider lineups to export
+ * @param {string} [format] - Format name, defaults to json
+ * @returns {string} Serialised output
+ */
+export function exportChannels(lineups: ProviderChannels[], format: string = 'json'): string {
+    return getExporter(format).export(lineups);
+}
+
+// Built-in exporters
+[jsonExporter, m3uExporter, xmltvExporter, csvExporter].forEach(registerExporter);
@@ -1,21 +1,96 @@
 import fs from 'fs';
 import path from 'path';
 import type { ScraperResult } from '../index';
+import type { Channel } from './scraper';
+import { getExporter } from './exporters';
+import { DEFAULT_OUTPUT_DIR as OUTPUT_DIR } from './config';
+import type { ScrapeReport } from './report';
 
-const OUTPUT_DIR = '../data';
+/**
+ * Name of the run report written next to the provider files
+ */
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+/**
+ * Builds the file name for a provider, or a region of it, e.g. "virgin" or "virgin-northern-ireland"
+ */
+const toFileName = (name: string, region?: string): string => region
+    ? `${name.toLowerCase()}-${region.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`
+    : name.toLowerCase();
 
 /**
- * Writes scraper results to JSON files
+ * Writes scraper results to files, one per provider and format
+ * Regional lineups of a result are written to a file per region
  * @param results Array of scraper results to write
+ * @param formats Output formats to write, defaults to JSON only
+ * @param outputDir Directory to write to, defaults to the package's data directory
+ * @throws Error if a format is unknown
  */
-export function writeResultsToFiles(results: ScraperResult[]): void {
-    const outputPath = path.join(__dirname, OUTPUT_DIR);
+export function writeResultsToFiles(results: ScraperResult[], formats: string[] = ['json'], outputDir: string = OUTPUT_DIR): void {
+    const exporters = formats.map(getExporter);
+    const outputPath = path.resolve(outputDir);
     fs.mkdirSync(outputPath, { recursive: true });
 
+    const write = (fileName: string, provider: string, channels: Channel[]) => {
+        exporters.forEach(exporter => {
+            const filePath = path.join(outputPath, `${fileName}.${exporter.extension}`);
+            fs.writeFileSync(filePath, exporter.export([{ provider, channels }]));
+        });
+    };
+
     results.forEach(result => {
         if (result.success && result.channels) {
-            const filePath = path.join(outputPath, `${result.name.toLowerCase()}.json`);
-            fs.writeFileSync(filePath, JSON.stringify(result.channels, null, 2));
+            write(toFileName(result.name), result.name, result.channels);
+            Object.entries(result.regions || {}).forEach(([region, channels]) => {
+                write(toFileName(result.name, region), result.name, channels);
+            });
         }
     });
-} 
\ No newline at end of file
+}
+
+/**
+ * Writes the report of a scrape run as manifest.json
+ * @param report Report of the run
+ * @param outputDir Directory the provider files were written to, defaults to the package's data directory
+ */
+export function writeManifest(report: ScrapeReport, outputDir: string = OUTPUT_DIR): void {
+    const outputPath = path.resolve(outputDir);
+    fs.mkdirSync(outputPath, { recursive: true });
+    fs.writeFileSync(path.join(outputPath, MANIFEST_FILE_NAME), JSON.stringify(report, null, 2));
+}
+
+/**
+ * Reads a provider's lineup, or a region of it, as written by writeResultsToFiles
+ * @param name Provider name
+ * @param outputDir Directory the lineup was written to, defaults to the package's data directory
+ * @param region Region of the lineup, the national lineup when unset
+ * @returns The channels and when they were written, or undefined if there is no readable file
+ */
+export function readSavedLineup(
+    name: string,
+    outputDir: string = OUTPUT_DIR,
+    region?: string
+): { channels: Channel[]; savedAt: Date } | undefined {
+    const filePath = path.join(path.resolve(outputDir), `${toFileName(name, region)}.json`);
+    if (!fs.existsSync(filePath)) {
+        return undefined;
+    }
+    try {
+        return {
+            channels: JSON.parse(fs.readFileSync(filePath, 'utf8')) as Channel[],
+            savedAt: fs.statSync(filePath).mtime
+        };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Reads a provider's channels from the last run written by writeResultsToFiles
+ * @param name Provider name
+ * @param outputDir Directory the previous run was written to, defaults to the package's data directory
+ * @returns Channels from the previous run, or undefined if there is none
+ */
+export function readPreviousChannels(name: string, outputDir: string = OUTPUT_DIR): Channel[] | undefined {
+    return readSavedLineup(name, outputDir)?.channels;
+}
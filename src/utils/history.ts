@@ -0,0 +1,172 @@
+/**
+ * Lineup history
+ * An append-only JSON-lines file with one record per successful scrape, so earlier lineups
+ * stay queryable after the output files are overwritten: a provider's lineup as of a date,
+ * and the numbers a channel has had over time.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Channel } from './scraper';
+import { resolveCanonicalId } from './catalogue';
+import { normalizeChannelName } from './normalize';
+
+/**
+ * A recorded scrape
+ * @property {string} provider - Provider name
+ * @property {string} scrapedAt - ISO time the lineup was scraped
+ * @property {string} [source] - URL of the source the lineup came from
+ * @property {string} [region] - Region the lineup is for, unset for the national lineup
+ * @property {Channel[]} channels - The lineup
+ */
+export interface HistoryRecord {
+    provider: string;
+    scrapedAt: string;
+    source?: string;
+    region?: string;
+    channels: Channel[];
+}
+
+/**
+ * A period a channel was listed under one number
+ * @property {string} provider - Provider name
+ * @property {string} number - Channel number
+ * @property {string} name - Channel name in the last scrape of the period
+ * @property {string} from - ISO time of the first scrape listing the channel under the number
+ * @property {string} to - ISO time of the last scrape listing the channel under the number
+ */
+export interface ChannelNumberSpan {
+    provider: string;
+    number: string;
+    name: string;
+    from: string;
+    to: string;
+}
+
+/**
+ * Options for channelNumberHistory
+ * @property {string} [provider] - Only this provider, matched case-insensitively, every provider when unset
+ * @property {string} [region] - Regional lineups to search, the national lineups when unset
+ */
+export interface ChannelHistoryOptions {
+    provider?: string;
+    region?: string;
+}
+
+const sameName = (a?: string, b?: string): boolean => (a || '').toLowerCase() === (b || '').toLowerCase();
+
+/**
+ * Parses a point in time; a date without a time means the end of that day in UTC
+ * @throws {Error} If the value is not a date
+ */
+const toTime = (value: Date | string): number => {
+    const time = value instanceof Date ? value.getTime() : Date.parse(value);
+    if (isNaN(time)) {
+        throw new Error(`Invalid date "${value}"`);
+    }
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())
+        ? time + 24 * 60 * 60 * 1000 - 1
+        : time;
+};
+
+/**
+ * Appends a scrape to a history file
+ * @param {string} file - History file, created with its directory if it does not exist
+ * @param {HistoryRecord} record - The scrape to record
+ */
+export function appendHistory(file: string, record: HistoryRecord): void {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(record)}\n`);
+}
+
+/**
+ * Reads the scrapes recorded in a history file
+ * @param {string} file - History file
+ * @param {string} [provider] - Only this provider's scrapes, matched case-insensitively
+ * @returns {HistoryRecord[]} Records, oldest first
+ * @throws {Error} If the file does not exist or a line is not a record
+ */
+export function readHistory(file: string, provider?: string): HistoryRecord[] {
+    if (!fs.existsSync(file)) {
+        throw new Error(`History file ${file} not found`);
+    }
+    const records = fs.readFileSync(file, 'utf8').split('\n').flatMap((line, index) => {
+        if (!line.trim()) return [];
+        let record: HistoryRecord;
+        try {
+            record = JSON.parse(line);
+        } catch {
+            record = {} as HistoryRecord;
+        }
+        if (typeof record.provider !== 'string' || isNaN(Date.parse(record.scrapedAt)) || !Array.isArray(record.channels)) {
+            throw new Error(`Invalid history record on line ${index + 1} of ${file}`);
+        }
+        return [record];
+    });
+    return records
+        .filter(record => !provider || sameName(record.provider, provider))
+        .sort((a, b) => Date.parse(a.scrapedAt) - Date.parse(b.scrapedAt));
+}
+
+/**
+ * Finds a provider's lineup as it was at a point in time
+ * @param {string} file - History file
+ * @param {string} provider - Provider name, matched case-insensitively
+ * @param {Date | string} at - Point in time; a date without a time means the end of that day in UTC
+ * @param {string} [region] - Region of the lineup, the national lineup when unset
+ * @returns {HistoryRecord | undefined} The last scrape at or before the time, or undefined if there is none
+ * @throws {Error} If the file cannot be read or the date is invalid
+ */
+export function lineupAsOf(file: string, provider: string, at: Date | string, region?: string): HistoryRecord | undefined {
+    const time = toTime(at);
+    return readHistory(file, provider)
+        .filter(record => sameName(record.region, region) && Date.parse(record.scrapedAt) <= time)
+        .pop();
+}
+
+/**
+ * Lists the numbers a channel has been listed under, as periods per provider
+ * The channel matches rows with the same canonical ID or the same normalized name, so variants
+ * linked to one catalogue entry, e.g. HD and SD, each get their own periods.
+ * @param {string} file - History file
+ * @param {string} channel - Channel name, raw or normalized
+ * @param {ChannelHistoryOptions} [options] - Provider and region to search
+ * @returns {ChannelNumberSpan[]} Periods by provider, oldest first; a period ends when a scrape no longer lists the channel under the number
+ * @throws {Error} If the file cannot be read
+ */
+export function channelNumberHistory(file: string, channel: string, options: ChannelHistoryOptions = {}): ChannelNumberSpan[] {
+    const canonicalId = resolveCanonicalId(channel);
+    const name = normalizeChannelName(channel);
+    const matches = (row: Channel): boolean =>
+        (!!canonicalId && row.canonicalId === canonicalId) || normalizeChannelName(row.name) === name;
+
+    const spans: ChannelNumberSpan[] = [];
+    const open = new Map<string, ChannelNumberSpan>();
+    const close = ([key, span]: [string, ChannelNumberSpan]) => {
+        spans.push(span);
+        open.delete(key);
+    };
+
+    readHistory(file, options.provider)
+        .filter(record => sameName(record.region, options.region))
+        .forEach(record => {
+            const listed = new Set<string>();
+            record.channels.filter(matches).forEach(row => {
+                const key = `${record.provider.toLowerCase()}\n${row.number}`;
+                listed.add(key);
+                const span = open.get(key);
+                if (span) {
+                    span.to = record.scrapedAt;
+                    span.name = row.name;
+                } else {
+                    open.set(key, { provider: record.provider, number: row.number, name: row.name, from: record.scrapedAt, to: record.scrapedAt });
+                }
+            });
+            Array.from(open.entries())
+                .filter(([key]) => key.startsWith(`${record.provider.toLowerCase()}\n`) && !listed.has(key))
+                .forEach(close);
+        });
+    Array.from(open.entries()).forEach(close);
+
+    return spans.sort((a, b) => a.provider.localeCompare(b.provider) || Date.parse(a.from) - Date.parse(b.from));
+}
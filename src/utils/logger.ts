@@ -0,0 +1,71 @@
+/**
+ * Leveled logging
+ * Library code logs through a Logger instead of the console, so applications can route
+ * messages into their own logging, and the CLI can write plain text or NDJSON to stderr.
+ */
+
+/**
+ * Log level, in increasing severity; silent disables logging
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Log output format
+ * - text: one readable line per message
+ * - ndjson: one JSON object per line with time, level, message and fields
+ */
+export type LogFormat = 'text' | 'ndjson';
+
+/**
+ * A leveled logger
+ * Fields carry structured context, e.g. the provider a message is about
+ */
+export interface Logger {
+    debug: (message: string, fields?: Record<string, unknown>) => void;
+    info: (message: string, fields?: Record<string, unknown>) => void;
+    warn: (message: string, fields?: Record<string, unknown>) => void;
+    error: (message: string, fields?: Record<string, unknown>) => void;
+}
+
+/**
+ * Options for createLogger
+ * @property {LogLevel} [level] - Minimum level written, defaults to info
+ * @property {LogFormat} [format] - Output format, defaults to text
+ * @property {{ write: (chunk: string) => unknown }} [stream] - Where lines are written, defaults to stderr
+ */
+export interface LoggerOptions {
+    level?: LogLevel;
+    format?: LogFormat;
+    stream?: { write: (chunk: string) => unknown };
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+export const LOG_FORMATS: LogFormat[] = ['text', 'ndjson'];
+
+/**
+ * Creates a logger writing lines to a stream
+ * @param {LoggerOptions} [options] - Level, format and stream
+ * @returns {Logger} The logger
+ */
+export function createLogger({ level = 'info', format = 'text', stream = process.stderr }: LoggerOptions = {}): Logger {
+    const minimum = LOG_LEVELS.indexOf(level);
+
+    const write = (messageLevel: Exclude<LogLevel, 'silent'>) => (message: string, fields: Record<string, unknown> = {}) => {
+        if (LOG_LEVELS.indexOf(messageLevel) < minimum) return;
+        stream.write(format === 'ndjson'
+            ? `${JSON.stringify({ time: new Date().toISOString(), level: messageLevel, message, ...fields })}\n`
+            : `[${messageLevel}] ${message}\n`);
+    };
+
+    return {
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error')
+    };
+}
+
+/**
+ * Logger used when none is given: discards every message, so the library writes nothing unless asked
+ */
+export const defaultLogger: Logger = createLogger({ level: 'silent' });
@@ -0,0 +1,126 @@
+/**
+ * Channel name normalization
+ * Shared by the scrapers and the canonical channel catalogue so names are compared consistently.
+ * Names pass through a pipeline of named steps; providers can run their own selection of steps
+ * or add custom ones, and override keys are checked against the pipeline when a provider loads.
+ */
+
+/**
+ * A normalization step, mapping a channel name to its next form
+ */
+export type NormalizationStep = (name: string) => string;
+
+/**
+ * Name of a built-in normalization step
+ * - foldDiacritics: removes accents and other combining marks, and spells out letters such as Ø and Æ
+ * - uppercase: upper-cases the name
+ * - stripBrackets: removes bracketed qualifiers, e.g. "(London)", keeping HD, UHD, 4K and +1 markers
+ * - suffixes: unbrackets HD, UHD, 4K and +1 markers and attaches +1 to the name, e.g. "Dave + 1" to "Dave+1"
+ * - ampersands: removes the spaces around ampersands, e.g. "A & E" to "A&E"
+ * - punctuation: removes characters other than letters, digits, spaces, &, + and apostrophes, in any script
+ * - whitespace: collapses runs of whitespace and trims the name
+ */
+export type NormalizationStepName =
+    | 'foldDiacritics'
+    | 'uppercase'
+    | 'stripBrackets'
+    | 'suffixes'
+    | 'ampersands'
+    | 'punctuation'
+    | 'whitespace';
+
+/**
+ * A pipeline of built-in step names and custom steps, applied in order
+ */
+export type NormalizationPipeline = (NormalizationStepName | NormalizationStep)[];
+
+/**
+ * An override whose key is not a normalized name, so no channel can ever match it
+ * @property {string} key - Override key as written
+ * @property {string} normalized - What the key normalizes to, the key that would match
+ */
+export interface UnreachableOverride {
+    key: string;
+    normalized: string;
+}
+
+// Letters without a decomposition, so NFKD leaves them intact
+const FOLDED_LETTERS: Record<string, string> = {
+    'Æ': 'AE', 'æ': 'ae', 'Œ': 'OE', 'œ': 'oe', 'Ø': 'O', 'ø': 'o',
+    'Ł': 'L', 'ł': 'l', 'Đ': 'D', 'đ': 'd', 'Þ': 'TH', 'þ': 'th', 'ı': 'i'
+};
+
+const VARIANT_MARKER = '(?:U?HD|4K|\\+\\s*1)';
+
+export const NORMALIZATION_STEPS: Record<NormalizationStepName, NormalizationStep> = {
+    foldDiacritics: name => name
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .replace(/[ÆæŒœØøŁłĐđÞþı]/g, letter => FOLDED_LETTERS[letter]),
+    uppercase: name => name.toUpperCase(),
+    stripBrackets: name => name.replace(
+        new RegExp(`[([{](?!\\s*${VARIANT_MARKER}\\s*[)\\]}])[^()[\\]{}]*[)\\]}]`, 'gi'),
+        ' '
+    ),
+    suffixes: name => name
+        .replace(new RegExp(`[([{]\\s*(${VARIANT_MARKER})\\s*[)\\]}]`, 'gi'), ' $1')
+        .replace(/\s*\+\s*1(?!\d)/g, '+1'),
+    ampersands: name => name.replace(/\s*&\s*/g, '&'),
+    punctuation: name => name
+        .replace(/[‘’`´]/g, '\'')
+        .replace(/[^\p{L}\p{N}\s&+']/gu, ''),
+    whitespace: name => name.replace(/\s+/g, ' ').trim()
+};
+
+/**
+ * Steps of the default pipeline, in order
+ */
+export const DEFAULT_NORMALIZATION: NormalizationStepName[] = [
+    'foldDiacritics',
+    'uppercase',
+    'stripBrackets',
+    'ampersands',
+    'punctuation',
+    'suffixes',
+    'whitespace'
+];
+
+/**
+ * Creates a normalizer running a pipeline of steps
+ * @param {NormalizationPipeline} [steps] - Step names and custom steps, the default pipeline when unset
+ * @returns {NormalizationStep} Function normalizing a name through every step in order
+ * @throws {Error} If a step name is not a built-in step
+ */
+export function createNormalizer(steps: NormalizationPipeline = DEFAULT_NORMALIZATION): NormalizationStep {
+    const pipeline = steps.map(step => {
+        if (typeof step === 'function') return step;
+        if (!Object.prototype.hasOwnProperty.call(NORMALIZATION_STEPS, step)) {
+            throw new Error(`Unknown normalization step "${step}", expected one of ${Object.keys(NORMALIZATION_STEPS).join(', ')}`);
+        }
+        return NORMALIZATION_STEPS[step];
+    });
+    return name => pipeline.reduce((normalized, step) => step(normalized), name);
+}
+
+/**
+ * Normalizes channel names to a standard format across providers with the default pipeline
+ * @param {string} name - Raw channel name from provider
+ * @returns {string} Normalized channel name
+ */
+export const normalizeChannelName: NormalizationStep = createNormalizer();
+
+/**
+ * Finds override keys that can never match
+ * Overrides are looked up by normalized name, so a key only matches if normalizing it leaves it unchanged
+ * @param {Record<string, string>} overrides - Channel name mappings
+ * @param {NormalizationStep} [normalize] - Normalizer the names are looked up with, the default pipeline when unset
+ * @returns {UnreachableOverride[]} Keys that are not normalized names, with the key they should be
+ */
+export function findUnreachableOverrides(
+    overrides: Record<string, string>,
+    normalize: NormalizationStep = normalizeChannelName
+): UnreachableOverride[] {
+    return Object.keys(overrides)
+        .map(key => ({ key, normalized: normalize(key) }))
+        .filter(({ key, normalized }) => key !== normalized);
+}
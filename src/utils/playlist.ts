@@ -0,0 +1,182 @@
+/**
+ * M3U playlist annotation
+ * Matches the entries of an existing IPTV playlist against a provider's lineup by normalized
+ * name, writes the provider's numbers into their tvg-chno attributes and optionally puts the
+ * entries in the provider's channel order. Everything else in the playlist is kept as it is.
+ */
+
+import type { Channel } from './scraper';
+import { resolveCanonicalId } from './catalogue';
+import { normalizeChannelName } from './normalize';
+
+/**
+ * Options for annotatePlaylist
+ * @property {boolean} [sort] - Order matched entries by channel number, followed by the unmatched ones in playlist order
+ */
+export interface AnnotateOptions {
+    sort?: boolean;
+}
+
+/**
+ * A playlist entry and the channel it matched
+ * @property {number} line - Line of the entry's #EXTINF in the original playlist, from 1
+ * @property {string} name - Name the entry matched on, its tvg-name or title
+ * @property {string} number - Number written to tvg-chno
+ * @property {string} channel - Name of the matched channel in the lineup
+ */
+export interface AnnotatedEntry {
+    line: number;
+    name: string;
+    number: string;
+    channel: string;
+}
+
+/**
+ * A playlist entry no channel matched
+ * @property {number} line - Line of the entry's #EXTINF in the original playlist, from 1
+ * @property {string} name - The entry's tvg-name, or its title when it has none
+ * @property {string} [title] - The entry's title, when it differs from the name
+ */
+export interface UnmatchedEntry {
+    line: number;
+    name: string;
+    title?: string;
+}
+
+/**
+ * Result of annotating a playlist
+ * @property {string} playlist - The annotated playlist
+ * @property {number} entries - Number of entries in the playlist
+ * @property {AnnotatedEntry[]} matched - Entries given a number, in original playlist order
+ * @property {UnmatchedEntry[]} unmatched - Entries left as they were, in original playlist order
+ */
+export interface AnnotateResult {
+    playlist: string;
+    entries: number;
+    matched: AnnotatedEntry[];
+    unmatched: UnmatchedEntry[];
+}
+
+/**
+ * An #EXTINF line and the lines up to the next one
+ */
+interface PlaylistBlock {
+    line: number;
+    lines: string[];
+}
+
+/**
+ * Splits an #EXTINF line at the comma before the title, ignoring commas in quoted attributes
+ */
+const splitExtinf = (line: string): { head: string; rest: string } => {
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') quoted = !quoted;
+        if (line[i] === ',' && !quoted) {
+            return { head: line.slice(0, i), rest: line.slice(i) };
+        }
+    }
+    return { head: line, rest: '' };
+};
+
+const readAttribute = (head: string, name: string): string | undefined =>
+    new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(head)?.[1];
+
+/**
+ * Sets an attribute in the head of an #EXTINF line, replacing any existing value
+ */
+const writeAttribute = (head: string, name: string, value: string): string => {
+    const attribute = new RegExp(`(^|\\s)${name}="[^"]*"`);
+    const written = `${name}="${value.replace(/"/g, '\'')}"`;
+    return attribute.test(head) ? head.replace(attribute, `$1${written}`) : `${head} ${written}`;
+};
+
+/**
+ * Indexes a lineup by normalized name and canonical ID, keeping the first channel of each
+ */
+const indexLineup = (channels: Channel[]): Map<string, Channel> => {
+    const index = new Map<string, Channel>();
+    channels.forEach(channel => {
+        [normalizeChannelName(channel.name), channel.canonicalId && `#${channel.canonicalId}`].forEach(key => {
+            if (key && !index.has(key)) {
+                index.set(key, channel);
+            }
+        });
+    });
+    return index;
+};
+
+/**
+ * Annotates an M3U playlist with a provider's channel numbers
+ * Each entry's tvg-name, then its title, is normalized with normalizeChannelName and matched against the
+ * normalized channel names, falling back to the canonical catalogue for names the lineup spells differently.
+ * Matched entries get the channel's number as tvg-chno; unmatched entries are left unchanged.
+ * @param {string} playlist - M3U playlist text
+ * @param {Channel[]} channels - The provider's lineup
+ * @param {AnnotateOptions} [options] - Whether to sort the playlist by number
+ * @returns {AnnotateResult} The annotated playlist with the matched and unmatched entries
+ * @throws {Error} If the text is not an M3U playlist
+ */
+export function annotatePlaylist(playlist: string, channels: Channel[], options: AnnotateOptions = {}): AnnotateResult {
+    const newline = playlist.includes('\r\n') ? '\r\n' : '\n';
+    // Trailing newlines stay at the end of the file when the entries are sorted
+    const body = playlist.replace(/(?:\r?\n)*$/, '');
+    const trailing = playlist.slice(body.length);
+    const lines = body.split(/\r?\n/);
+    if (!lines[0].replace(/^\uFEFF/, '').startsWith('#EXTM3U')) {
+        throw new Error('Playlist does not start with #EXTM3U');
+    }
+
+    const header: string[] = [];
+    const blocks: PlaylistBlock[] = [];
+    lines.forEach((line, index) => {
+        if (line.startsWith('#EXTINF:')) {
+            blocks.push({ line: index + 1, lines: [line] });
+        } else if (blocks.length) {
+            blocks[blocks.length - 1].lines.push(line);
+        } else {
+            header.push(line);
+        }
+    });
+
+    const index = indexLineup(channels);
+    const find = (name: string): Channel | undefined => {
+        if (!name) return undefined;
+        const canonicalId = resolveCanonicalId(name);
+        return index.get(normalizeChannelName(name)) || (canonicalId ? index.get(`#${canonicalId}`) : undefined);
+    };
+
+    const matched: AnnotatedEntry[] = [];
+    const unmatched: UnmatchedEntry[] = [];
+    const numbers = new Map<PlaylistBlock, string>();
+    blocks.forEach(block => {
+        const { head, rest } = splitExtinf(block.lines[0]);
+        const title = rest.slice(1).trim();
+        const tvgName = readAttribute(head, 'tvg-name') || '';
+        const name = [tvgName, title].find(candidate => find(candidate));
+        const channel = name ? find(name) : undefined;
+        if (!name || !channel) {
+            unmatched.push({ line: block.line, name: tvgName || title, ...(tvgName && title !== tvgName && { title }) });
+            return;
+        }
+        block.lines[0] = `${writeAttribute(head, 'tvg-chno', channel.number)}${rest}`;
+        numbers.set(block, channel.number);
+        matched.push({ line: block.line, name, number: channel.number, channel: channel.name });
+    });
+
+    const ordered = options.sort
+        ? [
+            ...Array.from(numbers)
+                .sort(([, a], [, b]) => a.localeCompare(b, undefined, { numeric: true }))
+                .map(([block]) => block),
+            ...blocks.filter(block => !numbers.has(block))
+        ]
+        : blocks;
+
+    return {
+        playlist: [...header, ...ordered.flatMap(block => block.lines)].join(newline) + trailing,
+        entries: blocks.length,
+        matched,
+        unmatched
+    };
+}
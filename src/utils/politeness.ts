@@ -0,0 +1,144 @@
+/**
+ * Politeness controls
+ * Keeps scrapers from hammering the sites they read: page loads are limited per host, so
+ * providers sharing a site (Sky and Virgin both read rxtvinfo.com) share its limits, and
+ * each run's user agent is chosen by the configured rotation.
+ */
+
+import randomUseragent from 'random-useragent';
+import { abortReason, throwIfAborted } from './abort';
+import type { ResolvedSettings } from './config';
+
+/**
+ * Limits for the page loads of one host
+ * @property {number} [concurrency] - Page loads running at once, unlimited when unset
+ * @property {number} [interval] - Minimum milliseconds between the start of one page load and the next
+ */
+export interface RateLimit {
+    concurrency?: number;
+    interval?: number;
+}
+
+/**
+ * Limits page loads per host
+ */
+export interface HostLimiter {
+    /**
+     * Runs a task once its URL's host has a free slot and the interval since the host's last start has passed
+     * Tasks for a host start in the order they were scheduled
+     * @param {string} url - URL the task loads
+     * @param {RateLimit} limit - Limits the task waits for
+     * @param {() => Promise<T>} task - The page load
+     * @param {AbortSignal} [signal] - Gives up the task's place in the queue when aborted
+     * @returns {Promise<T>} The task's result
+     * @throws {ScrapeCancelledError | ScrapeTimeoutError} If the signal is aborted before the task starts
+     */
+    schedule: <T>(url: string, limit: RateLimit, task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+}
+
+interface HostState {
+    active: number;
+    lastStart: number;
+    waiting: { limit: RateLimit; start: () => void }[];
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * Creates a host limiter
+ * @returns {HostLimiter} A limiter with no page loads running
+ */
+export function createHostLimiter(): HostLimiter {
+    const hosts = new Map<string, HostState>();
+
+    const startNext = (state: HostState): void => {
+        while (state.waiting.length) {
+            const { limit, start } = state.waiting[0];
+            if (limit.concurrency !== undefined && state.active >= limit.concurrency) {
+                return;
+            }
+            const wait = state.lastStart + (limit.interval || 0) - Date.now();
+            if (wait > 0) {
+                if (!state.timer) {
+                    state.timer = setTimeout(() => {
+                        state.timer = undefined;
+                        startNext(state);
+                    }, wait);
+                }
+                return;
+            }
+            state.waiting.shift();
+            state.active++;
+            state.lastStart = Date.now();
+            start();
+        }
+    };
+
+    return {
+        schedule: async (url, limit, task, signal) => {
+            throwIfAborted(signal);
+            const host = new URL(url).host;
+            let state = hosts.get(host);
+            if (!state) {
+                state = { active: 0, lastStart: 0, waiting: [] };
+                hosts.set(host, state);
+            }
+            await new Promise<void>((resolve, reject) => {
+                const waiter = {
+                    limit,
+                    start: () => {
+                        stopListening();
+                        resolve();
+                    }
+                };
+                let stopListening = () => {};
+                if (signal) {
+                    const onAbort = () => {
+                        state.waiting.splice(state.waiting.indexOf(waiter), 1);
+                        reject(abortReason(signal));
+                        startNext(state);
+                    };
+                    signal.addEventListener('abort', onAbort, { once: true });
+                    stopListening = () => signal.removeEventListener('abort', onAbort);
+                }
+                state.waiting.push(waiter);
+                startNext(state);
+            });
+            try {
+                return await task();
+            } finally {
+                state.active--;
+                startNext(state);
+            }
+        }
+    };
+}
+
+/**
+ * Limiter shared by every scraper run in the process
+ */
+export const hostLimiter: HostLimiter = createHostLimiter();
+
+const rotations = new Map<string, number>();
+
+/**
+ * Chooses the user agent for a scraper run by the settings' rotation
+ * @param {ResolvedSettings} settings - Scraper settings
+ * @returns {string} The user agent
+ */
+export function pickUserAgent(settings: Pick<ResolvedSettings, 'userAgent' | 'userAgents' | 'userAgentRotation'>): string {
+    const agents = settings.userAgents || [];
+    switch (settings.userAgentRotation) {
+        case 'round-robin': {
+            if (!agents.length) break;
+            const key = agents.join('\n');
+            const next = rotations.get(key) || 0;
+            rotations.set(key, (next + 1) % agents.length);
+            return agents[next];
+        }
+        case 'random':
+            return agents.length
+                ? agents[Math.floor(Math.random() * agents.length)]
+                : randomUseragent.getRandom() || settings.userAgent;
+    }
+    return settings.userAgent;
+}
@@ -0,0 +1,48 @@
+/**
+ * Regional lineups
+ * Providers such as Virgin Media list regional variants alongside the national lineup
+ * (e.g. BBC One Wales on 101 "In Wales"). Scrapers keep those rows with a region set,
+ * and these helpers turn them into the lineup for a given region.
+ */
+
+import type { Channel } from './scraper';
+
+const sameRegion = (a?: string, b?: string): boolean => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Selects the lineup for a region
+ * Without a region only national rows are returned. With a region, that region's rows
+ * replace the national rows on the same numbers; other regions' rows are dropped.
+ * @param {Channel[]} channels - National and regional rows in page order
+ * @param {string} [region] - Region to select, matched case-insensitively
+ * @returns {Channel[]} The lineup for the region
+ */
+export function selectRegion(channels: Channel[], region?: string): Channel[] {
+    const regionalNumbers = new Set(
+        channels.filter(channel => sameRegion(channel.region, region)).map(channel => channel.number)
+    );
+
+    return channels.filter(channel => channel.region
+        ? sameRegion(channel.region, region)
+        : !regionalNumbers.has(channel.number));
+}
+
+/**
+ * Builds the lineup of every region
+ * @param {Channel[]} channels - National and regional rows in page order
+ * @param {string[]} regions - Regions to build lineups for
+ * @returns {Record<string, Channel[]>} Lineup per region
+ */
+export function splitRegions(channels: Channel[], regions: string[]): Record<string, Channel[]> {
+    return Object.fromEntries(regions.map(region => [region, selectRegion(channels, region)]));
+}
+
+/**
+ * Finds a region in a provider's supported regions
+ * @param {string[]} supported - Regions the provider declares
+ * @param {string} region - Region to look up, matched case-insensitively
+ * @returns {string | undefined} The region as the provider declares it, if supported
+ */
+export function findRegion(supported: string[], region: string): string | undefined {
+    return supported.find(candidate => sameRegion(candidate, region));
+}
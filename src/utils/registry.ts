@@ -0,0 +1,197 @@
+/**
+ * Provider registry
+ * Holds the scraper configurations that the library and CLI operate on.
+ * The built-in providers are registered on load; additional providers can be
+ * registered at runtime or loaded from external plugin modules.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ScraperConfig, ScraperSource } from './scraper';
+import { createTableScraper, isTableDefinitionFile, loadTableDefinitions } from './tableScraper';
+import { createNormalizer, findUnreachableOverrides } from './normalize';
+import { defaultLogger, type Logger } from './logger';
+import directvConfig from '../scrapers/directv';
+import dishConfig from '../scrapers/dish';
+import skyConfig from '../scrapers/sky';
+import virginConfig from '../scrapers/virgin';
+
+/**
+ * A registered provider
+ * @property {string} name - Display name of the provider, as it was registered
+ * @property {ScraperConfig} config - Scraper configuration for the provider
+ */
+export interface ProviderEntry {
+    name: string;
+    config: ScraperConfig;
+}
+
+/**
+ * Options for registering a provider
+ * @property {boolean} [replace] - Replace an existing provider with the same name instead of throwing
+ * @property {Logger} [logger] - Receives warnings about override keys that can never match, silent when unset
+ */
+export interface RegisterOptions {
+    replace?: boolean;
+    logger?: Logger;
+}
+
+/**
+ * Shape of an external provider module
+ * Either a map of provider names to scraper configurations, or a function
+ * that registers providers itself using the supplied registry API
+ */
+export type ProviderPlugin =
+    | Record<string, ScraperConfig>
+    | ((registry: { registerProvider: typeof registerProvider }) => void | Promise<void>);
+
+const PLUGIN_EXTENSIONS = ['.js', '.cjs', '.ts', '.json', '.yaml', '.yml'];
+
+// Keyed by lower-cased name so lookups are case-insensitive
+const registry = new Map<string, ProviderEntry>();
+
+const toKey = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Checks that a config or source can be scraped in its mode: http mode needs an extract function,
+ * browser mode a scrapeFunction or an extract function
+ */
+const hasExtraction = (config: ScraperSource | undefined): boolean =>
+    typeof config?.extract === 'function'
+    || (config?.mode !== 'http' && typeof config?.scrapeFunction === 'function');
+
+/**
+ * Warns about override keys of a provider and its sources that its normalization can never produce
+ */
+const warnUnreachableOverrides = (name: string, config: ScraperConfig, logger: Logger): void => {
+    const normalize = createNormalizer(config.normalization);
+    [config, ...(config.sources || [])].forEach(({ overrides }) => {
+        findUnreachableOverrides(overrides || {}, normalize).forEach(({ key, normalized }) => {
+            logger.warn(`Provider "${name}" override "${key}" can never match, names normalize to "${normalized}"`, {
+                provider: name,
+                override: key,
+                normalized
+            });
+        });
+    });
+};
+
+/**
+ * Registers a provider
+ * Override keys are checked against the provider's normalization, and keys that can never match are logged as warnings
+ * @param {string} name - Provider name, matched case-insensitively
+ * @param {ScraperConfig} config - Scraper configuration for the provider
+ * @param {RegisterOptions} [options] - Registration options
+ * @throws {Error} If the name is empty, the config is invalid or has an unknown normalization step, or the name is already registered and replace is not set
+ */
+export function registerProvider(name: string, config: ScraperConfig, options: RegisterOptions = {}): void {
+    const key = toKey(name);
+    if (!key) {
+        throw new Error('Provider name must not be empty');
+    }
+    if (!hasExtraction(config)) {
+        throw new Error(`Provider "${name}" must have ${config?.mode === 'http' ? 'an extract function for http mode' : 'a scrapeFunction or extract function'}`);
+    }
+    if ((config.sources || []).some(source => !source?.url || !hasExtraction(source))) {
+        throw new Error(`Provider "${name}" sources must each have a url and an extract function, or a scrapeFunction in browser mode`);
+    }
+    const existing = registry.get(key);
+    if (existing && !options.replace) {
+        throw new Error(`Provider "${existing.name}" is already registered`);
+    }
+    warnUnreachableOverrides(name.trim(), config, options.logger || defaultLogger);
+    registry.set(key, { name: name.trim(), config });
+}
+
+/**
+ * Removes a provider from the registry
+ * @param {string} name - Provider name, matched case-insensitively
+ * @returns {boolean} True if a provider was removed
+ */
+export function unregisterProvider(name: string): boolean {
+    return registry.delete(toKey(name));
+}
+
+/**
+ * Looks up a provider by name
+ * @param {string} name - Provider name, matched case-insensitively
+ * @returns {ProviderEntry | undefined} The registered provider, if any
+ */
+export function getProvider(name: string): ProviderEntry | undefined {
+    return registry.get(toKey(name));
+}
+
+/**
+ * Lists all registered providers in registration order
+ * @returns {ProviderEntry[]} Registered providers
+ */
+export function listProviders(): ProviderEntry[] {
+    return Array.from(registry.values());
+}
+
+/**
+ * Resolves the module files to load from a plugin path
+ * A directory yields every plugin file directly inside it
+ */
+const resolvePluginFiles = (target: string): string[] => {
+    const resolved = path.resolve(target);
+    if (!fs.existsSync(resolved)) {
+        throw new Error(`Provider module path "${target}" does not exist`);
+    }
+    if (!fs.statSync(resolved).isDirectory()) {
+        return [resolved];
+    }
+    return fs.readdirSync(resolved)
+        .filter(file => PLUGIN_EXTENSIONS.includes(path.extname(file)) && !file.endsWith('.d.ts'))
+        .sort()
+        .map(file => path.join(resolved, file));
+};
+
+/**
+ * Loads external provider modules and registers the providers they export
+ * JSON and YAML files are read as table scraper definitions
+ * @param {string} target - Path to a provider module or definition file, or a directory of them
+ * @param {RegisterOptions} [options] - Registration options applied to every provider
+ * @returns {Promise<string[]>} Names of the providers that were registered
+ * @throws {Error} If the path does not exist or a module has an unsupported shape
+ */
+export async function loadProviderModules(target: string, options: RegisterOptions = {}): Promise<string[]> {
+    const registered: string[] = [];
+
+    for (const file of resolvePluginFiles(target)) {
+        if (isTableDefinitionFile(file)) {
+            loadTableDefinitions(file).forEach(definition => {
+                registerProvider(definition.name, createTableScraper(definition), options);
+                registered.push(definition.name);
+            });
+            continue;
+        }
+
+        const mod = require(file);
+        const plugin: ProviderPlugin = mod?.default ?? mod;
+
+        if (typeof plugin === 'function') {
+            await plugin({
+                registerProvider: (name, config, pluginOptions) => {
+                    registerProvider(name, config, { ...options, ...pluginOptions });
+                    registered.push(name);
+                }
+            });
+        } else if (plugin && typeof plugin === 'object') {
+            for (const [name, config] of Object.entries(plugin)) {
+                registerProvider(name, config, options);
+                registered.push(name);
+            }
+        } else {
+            throw new Error(`Provider module "${file}" must export a provider map or a register function`);
+        }
+    }
+
+    return registered;
+}
+
+// Built-in providers
+registerProvider('DIRECTV', directvConfig);
+registerProvider('DISH', dishConfig);
+registerProvider('SKY', skyConfig);
+registerProvider('Virgin', virginConfig);
@@ -0,0 +1,166 @@
+/**
+ * Scrape reports
+ * A JSON-safe record of a scrape run: where each provider was scraped from, when, by which
+ * package version, how long it took, how many attempts and channels it had, and why it failed.
+ * The CLI writes it as manifest.json next to the per-provider files.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ScraperResult } from '../index';
+import { getScrapeStatus, type ScrapeStatus } from './abort';
+import type { DiagnosticsBundle } from './diagnostics';
+import { ValidationError } from './validation';
+
+/**
+ * An error as plain data
+ * @property {string} name - Error class name, e.g. "Error" or "ValidationError"
+ * @property {string} message - Error message
+ * @property {string} [rule] - Validation rule that failed, for validation errors
+ * @property {string} [severity] - Validation severity, for validation errors
+ * @property {string[]} [details] - Offending rows or values, for validation errors
+ */
+export interface SerializedError {
+    name: string;
+    message: string;
+    rule?: string;
+    severity?: string;
+    details?: string[];
+}
+
+/**
+ * Report entry of one provider
+ * @property {string} provider - Provider name
+ * @property {string} url - URL the provider is scraped from
+ * @property {string} [source] - URL of the source that produced the lineup, or the last one tried
+ * @property {string} version - Package version that scraped it
+ * @property {string} scrapedAt - ISO time the lineup was scraped, the cache time for cached lineups
+ * @property {boolean} success - Whether a lineup was returned
+ * @property {ScrapeStatus} status - Whether the scrape succeeded, failed, was cancelled or timed out
+ * @property {number} duration - Milliseconds the provider took
+ * @property {number} attempts - Scrape attempts made, 0 when the page did not load or the lineup came from the cache
+ * @property {number} channelCount - Channels in the lineup
+ * @property {boolean} warned - Whether the lineup has validation warnings or is a fallback from the cache
+ * @property {boolean} fromCache - Whether the lineup came from the result cache
+ * @property {SerializedError} [error] - Why the scrape failed
+ * @property {SerializedError[]} [validationErrors] - Validation failures and warnings
+ * @property {{ url: string, error: SerializedError, diagnostics?: DiagnosticsBundle }[]} [failedSources] - Sources that failed before the one used
+ * @property {DiagnosticsBundle} [diagnostics] - Files the failed scrape saved, when a diagnostics directory is configured
+ */
+export interface ProviderReport {
+    provider: string;
+    url: string;
+    source?: string;
+    version: string;
+    scrapedAt: string;
+    success: boolean;
+    status: ScrapeStatus;
+    duration: number;
+    attempts: number;
+    channelCount: number;
+    warned: boolean;
+    fromCache: boolean;
+    error?: SerializedError;
+    validationErrors?: SerializedError[];
+    failedSources?: { url: string; error: SerializedError; diagnostics?: DiagnosticsBundle }[];
+    diagnostics?: DiagnosticsBundle;
+}
+
+/**
+ * Report of a scrape run
+ * @property {string} version - Package version
+ * @property {string} startedAt - ISO time the run started
+ * @property {number} totalDuration - Milliseconds the run took
+ * @property {string} successRate - Percentage of providers that returned a lineup
+ * @property {number} totalChannels - Channels across every lineup
+ * @property {ProviderReport[]} providers - One entry per provider, including failed ones
+ */
+export interface ScrapeReport {
+    version: string;
+    startedAt: string;
+    totalDuration: number;
+    successRate: string;
+    totalChannels: number;
+    providers: ProviderReport[];
+}
+
+const readVersion = (): string => {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8')).version;
+    } catch {
+        return 'unknown';
+    }
+};
+
+/**
+ * Version of this package, as recorded in reports
+ */
+export const PACKAGE_VERSION: string = readVersion();
+
+/**
+ * Converts an error to plain data that survives JSON.stringify
+ * @param {Error} error - Error to convert
+ * @returns {SerializedError} Name, message and, for validation errors, the rule, severity and details
+ */
+export function serializeError(error: Error): SerializedError {
+    return {
+        name: error.name,
+        message: error.message,
+        ...(error instanceof ValidationError && {
+            rule: error.rule,
+            severity: error.severity,
+            ...(error.details && { details: error.details })
+        })
+    };
+}
+
+/**
+ * Builds the report entry of a provider result
+ * @param {ScraperResult} result - Result of scrapeProvider or scrapeAllProviders
+ * @returns {ProviderReport} The entry
+ */
+export function toProviderReport(result: ScraperResult): ProviderReport {
+    return {
+        provider: result.name,
+        url: result.url || '',
+        ...(result.source && { source: result.source }),
+        version: PACKAGE_VERSION,
+        scrapedAt: result.scrapedAt || new Date().toISOString(),
+        success: result.success,
+        status: result.status || getScrapeStatus(result.success, result.error),
+        duration: result.duration,
+        attempts: result.attempts || 0,
+        channelCount: result.channelCount || 0,
+        warned: !!result.warned,
+        fromCache: !!result.fromCache,
+        ...(result.error && { error: serializeError(result.error) }),
+        ...(result.validationErrors && { validationErrors: result.validationErrors.map(serializeError) }),
+        ...(result.failedSources && {
+            failedSources: result.failedSources.map(({ url, error, diagnostics }) => ({
+                url,
+                error: serializeError(error),
+                ...(diagnostics && { diagnostics })
+            }))
+        }),
+        ...(result.diagnostics && { diagnostics: result.diagnostics })
+    };
+}
+
+/**
+ * Builds the report of a scrape run
+ * @param {ScraperResult[]} results - Result of every provider in the run
+ * @param {number} startedAt - Epoch milliseconds the run started
+ * @param {number} [finishedAt] - Epoch milliseconds the run finished, now by default
+ * @returns {ScrapeReport} The report
+ */
+export function createScrapeReport(results: ScraperResult[], startedAt: number, finishedAt: number = Date.now()): ScrapeReport {
+    const succeeded = results.filter(result => result.success).length;
+    return {
+        version: PACKAGE_VERSION,
+        startedAt: new Date(startedAt).toISOString(),
+        totalDuration: finishedAt - startedAt,
+        successRate: `${(results.length ? succeeded / results.length * 100 : 0).toFixed(1)}%`,
+        totalChannels: results.reduce((sum, result) => sum + (result.channelCount || 0), 0),
+        providers: results.map(toProviderReport)
+    };
+}
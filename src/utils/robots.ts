@@ -0,0 +1,169 @@
+/**
+ * robots.txt checks
+ * Parses a host's robots.txt and decides whether a user agent may load a URL, following
+ * RFC 9309: the most specific matching group applies, the longest matching rule wins and
+ * allow wins a tie. Fetched files are cached per origin for a day, unreachable ones not at all.
+ */
+
+/**
+ * An allow or disallow rule
+ * @property {boolean} allow - Whether matching paths may be loaded
+ * @property {string} path - Path pattern, where * matches any characters and a trailing $ anchors the end
+ */
+export interface RobotsRule {
+    allow: boolean;
+    path: string;
+}
+
+/**
+ * The rules for a set of user agents
+ * @property {string[]} agents - Lower-cased user agent tokens the group applies to, "*" for any
+ * @property {RobotsRule[]} rules - Allow and disallow rules
+ * @property {number} [crawlDelay] - Seconds to wait between requests
+ */
+export interface RobotsGroup {
+    agents: string[];
+    rules: RobotsRule[];
+    crawlDelay?: number;
+}
+
+/**
+ * A parsed robots.txt
+ * @property {RobotsGroup[]} groups - Groups in file order
+ */
+export interface RobotsTxt {
+    groups: RobotsGroup[];
+}
+
+/**
+ * Fetches a robots.txt, resolving with its status and body whatever the status
+ */
+export type RobotsFetcher = (url: string) => Promise<{ status: number; body: string }>;
+
+/**
+ * Result of a robots.txt check
+ * @property {boolean} allowed - Whether the URL may be loaded
+ * @property {number} [crawlDelay] - Seconds the host asks for between requests
+ */
+export interface RobotsCheck {
+    allowed: boolean;
+    crawlDelay?: number;
+}
+
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+
+const cache = new Map<string, { fetchedAt: number; robots: Promise<RobotsTxt> }>();
+
+// An unreachable robots.txt means the whole site is off limits
+const DISALLOW_ALL: RobotsTxt = { groups: [{ agents: ['*'], rules: [{ allow: false, path: '/' }] }] };
+
+/**
+ * Parses a robots.txt file
+ * Consecutive user-agent lines start a group; unknown fields and lines outside a group are ignored
+ * @param {string} text - File contents
+ * @returns {RobotsTxt} The groups
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | undefined;
+    let inAgents = false;
+
+    text.split(/\r?\n/).forEach(line => {
+        const match = /^\s*([A-Za-z-]+)\s*:\s*(.*?)\s*$/.exec(line.replace(/#.*$/, ''));
+        if (!match) return;
+        const field = match[1].toLowerCase();
+        const value = match[2];
+
+        if (field === 'user-agent') {
+            if (!inAgents || !current) {
+                current = { agents: [], rules: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            inAgents = true;
+            return;
+        }
+        inAgents = false;
+        if (!current) return;
+        if ((field === 'allow' || field === 'disallow') && value) {
+            current.rules.push({ allow: field === 'allow', path: value });
+        } else if (field === 'crawl-delay' && !isNaN(parseFloat(value))) {
+            current.crawlDelay = parseFloat(value);
+        }
+    });
+
+    return { groups };
+}
+
+/**
+ * Finds the groups that apply to a user agent: those naming the longest token the agent contains, otherwise the * groups
+ */
+const findGroups = (robots: RobotsTxt, userAgent: string): RobotsGroup[] => {
+    const agent = userAgent.toLowerCase();
+    const token = robots.groups
+        .flatMap(group => group.agents)
+        .filter(name => name !== '*' && agent.includes(name))
+        .sort((a, b) => b.length - a.length)[0] || '*';
+    return robots.groups.filter(group => group.agents.includes(token));
+};
+
+const matchesPath = (pattern: string, path: string): boolean => {
+    const anchored = pattern.endsWith('$');
+    const source = (anchored ? pattern.slice(0, -1) : pattern)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+};
+
+/**
+ * Checks a URL against a parsed robots.txt
+ * @param {RobotsTxt} robots - Parsed robots.txt of the URL's origin
+ * @param {string} userAgent - User agent the URL would be loaded with
+ * @param {string} url - URL to check
+ * @returns {RobotsCheck} Whether the URL may be loaded, and the crawl delay of the applying groups
+ */
+export function checkRobotsRules(robots: RobotsTxt, userAgent: string, url: string): RobotsCheck {
+    const { pathname, search } = new URL(url);
+    const target = `${pathname}${search}`;
+    const groups = findGroups(robots, userAgent);
+    const rule = groups
+        .flatMap(group => group.rules)
+        .filter(candidate => matchesPath(candidate.path, target))
+        .sort((a, b) => b.path.length - a.path.length || Number(b.allow) - Number(a.allow))[0];
+    const delays = groups.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+
+    return {
+        allowed: target === '/robots.txt' || !rule || rule.allow,
+        ...(delays.length && { crawlDelay: Math.max(...delays) })
+    };
+}
+
+/**
+ * Checks whether a user agent may load a URL according to its origin's robots.txt
+ * A missing robots.txt (4xx) allows everything; one that cannot be fetched (5xx or a network error) allows nothing
+ * @param {string} url - URL to check
+ * @param {string} userAgent - User agent the URL would be loaded with
+ * @param {RobotsFetcher} fetcher - Fetches the robots.txt, so it goes through the same proxy and user agent as the page
+ * @returns {Promise<RobotsCheck>} Whether the URL may be loaded, and the crawl delay the host asks for
+ */
+export async function checkRobotsTxt(url: string, userAgent: string, fetcher: RobotsFetcher): Promise<RobotsCheck> {
+    const { origin } = new URL(url);
+    let entry = cache.get(origin);
+    if (!entry || Date.now() - entry.fetchedAt > CACHE_TTL) {
+        // Unreachable files are not cached, so the next check tries again
+        const unreachable = () => {
+            cache.delete(origin);
+            return DISALLOW_ALL;
+        };
+        const robots = fetcher(`${origin}/robots.txt`)
+            .then(({ status, body }) => {
+                if (status >= 200 && status < 300) return parseRobotsTxt(body);
+                return status >= 400 && status < 500 ? { groups: [] } : unreachable();
+            })
+            .catch(unreachable);
+        entry = { fetchedAt: Date.now(), robots };
+        cache.set(origin, entry);
+    }
+    return checkRobotsRules(await entry.robots, userAgent, url);
+}
@@ -0,0 +1,68 @@
+/**
+ * Queue-based task scheduler
+ * Runs tasks with a fixed number of worker slots, starting the next queued task
+ * as soon as any slot frees up rather than waiting for a whole batch.
+ */
+
+/**
+ * Timing of a scheduled task
+ * @property {number} queued - Milliseconds the task waited for a free slot
+ * @property {number} startedAt - Epoch milliseconds when the task started
+ * @property {number} finishedAt - Epoch milliseconds when the task finished
+ * @property {number} duration - Milliseconds the task ran for
+ */
+export interface TaskTiming {
+    queued: number;
+    startedAt: number;
+    finishedAt: number;
+    duration: number;
+}
+
+/**
+ * Runs a worker over every item with limited concurrency
+ * A rejected worker rejects the whole run once the running tasks have settled,
+ * so workers should handle their own errors when partial results are wanted
+ * @template T - Item type
+ * @template R - Result type
+ * @param {T[]} items - Items to process, started in order
+ * @param {number} limit - Maximum number of workers running at once
+ * @param {(item: T) => Promise<R>} worker - Processes a single item
+ * @returns {Promise<{ results: R[], timings: TaskTiming[] }>} Results and timings in item order
+ */
+export async function runWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<R>
+): Promise<{ results: R[]; timings: TaskTiming[] }> {
+    const results: R[] = new Array(items.length);
+    const timings: TaskTiming[] = new Array(items.length);
+    const queuedAt = Date.now();
+    let next = 0;
+
+    const runSlot = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            const startedAt = Date.now();
+            try {
+                results[index] = await worker(items[index]);
+            } finally {
+                const finishedAt = Date.now();
+                timings[index] = {
+                    queued: startedAt - queuedAt,
+                    startedAt,
+                    finishedAt,
+                    duration: finishedAt - startedAt
+                };
+            }
+        }
+    };
+
+    const slots = Math.max(1, Math.min(limit, items.length));
+    const settled = await Promise.allSettled(Array.from({ length: slots }, runSlot));
+    const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+        throw failure.reason;
+    }
+
+    return { results, timings };
+}
@@ -8,124 +8,231 @@
  * - Channel name normalization
  * - Configurable error handling
  * - Structured output generation
+ * - Recording and replaying page snapshots for offline runs
+ * - Per-host rate limits, proxies, user agent rotation and robots.txt checks
+ * - Cancellation through an AbortSignal, closing the page's browser context straight away
+ * - Saving a screenshot, HTML, console log, aborted requests and trace of failed runs
  */
 
 import playwright from 'playwright';
-import randomUseragent from 'random-useragent';
 import fs from 'fs';
 import path from 'path';
+import { exportChannels, getExporter } from './exporters';
+import { createNormalizer, normalizeChannelName, type NormalizationPipeline, type NormalizationStep } from './normalize';
+import { resolveCanonicalId } from './catalogue';
+import { validateChannels, type ValidationRules } from './validation';
+import { selectRegion } from './regions';
+import type { BrowserPool } from './browserPool';
+import { logScrapeEvent, type ScraperProgress } from './events';
+import { createLogger } from './logger';
+import { listSources, sourceSnapshotName, withSource } from './sources';
+import { fetchHtml, fetchText, fromHtml, fromPage, type ExtractionMode, type LineupDocument } from './document';
+import { abortable, abortableDelay, throwIfAborted } from './abort';
+import {
+    getDiagnosticsDir,
+    recordContextDiagnostics,
+    writeDiagnostics,
+    type ContextDiagnostics,
+    type DiagnosticsBundle
+} from './diagnostics';
+import { hostLimiter, pickUserAgent, type HostLimiter } from './politeness';
+import { checkRobotsTxt, type RobotsFetcher } from './robots';
+import { formatScraperHelp, parseScraperArgs, UsageError, type Args } from './args';
+import { readPreviousChannels } from './fileUtils';
+import { loadConfig, getProviderSettings, mergeSettings, resolveSettings, type ResolvedSettings, type ScraperSettings } from './config';
 
 /**
  * Represents a TV channel with its number and standardized name
+ * Optional fields are only set when the provider's page supplies them or they apply
  * @property {string} number - The channel number in the provider's lineup
  * @property {string} name - The standardized channel name across providers
+ * @property {string} [canonicalId] - ID of the matching canonical catalogue entry, if any
+ * @property {string[]} [altNumbers] - Other numbers the channel is listed under, e.g. secondary or timeshift feeds
+ * @property {string} [timeshiftOf] - Standardized name of the channel this is a timeshift (+1) of
+ * @property {boolean} [isHD] - Whether this is an HD variant
+ * @property {boolean} [isUHD] - Whether this is a UHD/4K variant
+ * @property {string} [region] - Region the listing applies to, e.g. "Wales"
+ * @property {string} [category] - Genre/category the provider lists the channel under
  */
 export interface Channel {
     number: string;
     name: string;
+    canonicalId?: string;
+    altNumbers?: string[];
+    timeshiftOf?: string;
+    isHD?: boolean;
+    isUHD?: boolean;
+    region?: string;
+    category?: string;
 }
 
 /**
  * Configuration for a provider-specific scraper
  * @property {string} url - The URL to scrape channel information from
- * @property {Function} scrapeFunction - Provider-specific function to extract channel data
- * @property {Record<string, string>} [overrides] - Channel name standardization mappings
+ * @property {Function} [scrapeFunction] - Provider-specific function to extract channel data from a Playwright page
+ * @property {Function} [extract] - Extracts channel data through the row/column API, in either mode; required in http mode
+ * @property {ExtractionMode} [mode] - Render the page in Chromium (browser, the default) or fetch and parse it without a browser (http)
+ * @property {Record<string, string>} [overrides] - Channel name standardization mappings, keyed by normalized name
+ * @property {NormalizationPipeline} [normalization] - Steps names are normalized with before overrides apply, the default pipeline when unset
  * @property {string} outputFile - Name of the JSON file to store results
  * @property {Function} [runCustom] - Optional custom run function for special cases
+ * @property {ValidationRules} [validation] - Sanity checks applied to the scraped lineup
+ * @property {string[]} [regions] - Regions with their own lineup variants, e.g. "Wales"
+ * @property {ScraperSettings} [settings] - Overrides of the global settings for this provider
+ * @property {ScraperSource[]} [sources] - Fallback pages tried in order when the url fails to load or its lineup fails validation
  */
 export interface ScraperConfig {
     url: string;
-    scrapeFunction: (page: playwright.Page) => Promise<Partial<Channel>[]>;
+    scrapeFunction?: (page: playwright.Page) => Promise<Partial<Channel>[]>;
+    extract?: (document: LineupDocument) => Promise<Partial<Channel>[]>;
+    mode?: ExtractionMode;
     overrides?: Record<string, string>;
+    normalization?: NormalizationPipeline;
     outputFile?: string;
     runCustom?: (options: { writeFiles: boolean }) => Promise<Channel[]>;
+    validation?: ValidationRules;
+    regions?: string[];
+    settings?: ScraperSettings;
+    sources?: ScraperSource[];
 }
 
 /**
- * Global configuration settings for the scraper
- * Includes browser settings, resource blocking, retry logic, and output configuration
+ * A fallback page a provider's lineup can be scraped from
+ * @property {string} url - The URL to scrape channel information from
+ * @property {Function} [scrapeFunction] - Function to extract channel data from this page in Chromium
+ * @property {Function} [extract] - Extracts channel data through the row/column API, in either mode
+ * @property {ExtractionMode} [mode] - How this page is loaded, browser by default
+ * @property {Record<string, string>} [overrides] - Channel name standardization mappings, the provider's when unset
  */
-const CONFIG = {
-    // Browser settings
-    BROWSER: {
-        HEADLESS: true,
-        USER_AGENT: randomUseragent.getRandom(),
-    },
-    // Request interception
-    BLOCKED_RESOURCES: ['image', 'stylesheet', 'font', 'media'] as const,
-    // Retry settings
-    RETRY: {
-        ATTEMPTS: 1,
-        DELAY: 1000, // Base delay in milliseconds
-    },
-    // Page load settings
-    PAGE_LOAD: {
-        TIMEOUT: 30000,
-        WAIT_UNTIL: 'networkidle' as const,
-    },
-    // Output directory
-    OUTPUT_DIR: '../data',
-};
+export type ScraperSource = Pick<ScraperConfig, 'url' | 'scrapeFunction' | 'extract' | 'mode' | 'overrides'>;
+
+/**
+ * Snapshot mode for a scraper run
+ * - record: scrape the live site and save the rendered HTML
+ * - replay: load previously saved HTML instead of navigating to the live site
+ */
+export type SnapshotMode = 'record' | 'replay';
+
+/**
+ * Options for a single scraper run
+ * @property {SnapshotMode} [snapshotMode] - Record or replay page snapshots, live scraping only when unset
+ * @property {string} [snapshotDir] - Directory holding the snapshot files
+ * @property {string} [snapshotName] - Snapshot file name without extension, derived from outputFile when unset
+ * @property {string[]} [formats] - Formats to write when outputFile is set, defaults to JSON only
+ * @property {string} [region] - Region whose rows replace the national rows, national lineup only when unset
+ * @property {boolean} [includeAllRegions] - Return national and every region's rows instead of a single region's lineup
+ * @property {BrowserPool} [browserPool] - Shared browser to create the page's context in, a dedicated browser is launched when unset
+ * @property {ScraperSettings} [settings] - Global settings, overridden by the scraper config's own settings
+ * @property {HostLimiter} [hostLimiter] - Limiter the page load waits on, the one shared by the process when unset
+ * @property {AbortSignal} [signal] - Stops the run, closing its browser context, when aborted
+ * @property {Channel[]} [previousChannels] - Previous lineup the validation's maxChangePercent is checked against when saving diagnostics
+ * @property {Function} [onProgress] - Receives page load, row extraction, retry and saved diagnostics progress
+ */
+export interface RunScraperOptions {
+    snapshotMode?: SnapshotMode;
+    snapshotDir?: string;
+    snapshotName?: string;
+    formats?: string[];
+    region?: string;
+    includeAllRegions?: boolean;
+    browserPool?: BrowserPool;
+    settings?: ScraperSettings;
+    hostLimiter?: HostLimiter;
+    signal?: AbortSignal;
+    previousChannels?: Channel[];
+    onProgress?: (progress: ScraperProgress) => void;
+}
+
+/**
+ * Diagnostics of a run whose settings have a diagnostics directory
+ * @property {string} dir - Directory the run saves its diagnostics to when it fails
+ * @property {Function} check - Finds the error-severity validation failure of the extracted rows, if any
+ */
+interface RunDiagnostics {
+    dir: string;
+    check: (data: Partial<Channel>[]) => Error | undefined;
+}
 
 /**
  * Sets up a browser instance with custom configuration
+ * @param {ResolvedSettings} settings - Scraper settings
  * @returns {Promise<{browser: playwright.Browser, context: playwright.BrowserContext}>}
  * @throws {Error} If browser initialization fails
  */
-const setupBrowser = async () => {
+const setupBrowser = async (settings: ResolvedSettings) => {
     const browser = await playwright.chromium.launch({ 
-        headless: CONFIG.BROWSER.HEADLESS 
-    });
-    const context = await browser.newContext({ 
-        userAgent: CONFIG.BROWSER.USER_AGENT,
-        bypassCSP: true
+        headless: settings.headless 
     });
+    const context = await browser.newContext(getContextOptions(settings));
     return { browser, context };
 };
 
 /**
- * Normalizes channel names to a standard format across providers
- * Handles special characters, whitespace, and common variations
- * @param {string} name - Raw channel name from provider
- * @returns {string} Normalized channel name
+ * Browser context settings shared by dedicated and pooled browsers
+ * @param {ResolvedSettings} settings - Scraper settings
+ * @returns {playwright.BrowserContextOptions}
  */
-const normalizeChannelName = (name: string): string => {
-    return name
-        .toUpperCase()
-        .replace(/(?:\([^)]*\)|'|'|[^\w\s&+']|(?:\s+)|(?:\s*&\s*)|\s+\+1)/g, (match) => {
-            if (match === '&' || match.includes('&')) return '&';
-            if (match === "'" || match === "'") return "'";
-            if (match.startsWith('(')) return '';
-            if (match.includes('+1')) return '+1';
-            if (match === ' ') return ' ';
-            return '';
-        })
-        .replace(/\s+\+1/g, '+1')
-        .replace(/\s+/g, ' ')
-        .trim();
+const getContextOptions = (settings: ResolvedSettings): playwright.BrowserContextOptions => ({
+    userAgent: settings.userAgent,
+    bypassCSP: true,
+    ...(settings.proxy && { proxy: settings.proxy })
+});
+
+/**
+ * Wraps a release function so it only runs once, when both an abort and the run's end call it
+ */
+const once = (release: () => Promise<void>): (() => Promise<void>) => {
+    let released: Promise<void> | undefined;
+    return () => {
+        if (!released) {
+            released = release();
+        }
+        return released;
+    };
+};
+
+/**
+ * Opens a browser context, from the shared pool if one is given
+ * @param {ResolvedSettings} settings - Scraper settings
+ * @param {BrowserPool} [pool] - Shared browser pool
+ * @returns Context and a function that releases it, closing the browser when it is dedicated
+ */
+const openContext = async (settings: ResolvedSettings, pool?: BrowserPool) => {
+    if (pool) {
+        const context = await pool.acquire(getContextOptions(settings));
+        return { context, release: once(() => pool.release(context)) };
+    }
+    const { browser, context } = await setupBrowser(settings);
+    return { context, release: once(() => browser.close()) };
 };
 
 /**
  * Implements retry logic with exponential backoff
  * @template T - Return type of the function being retried
  * @param {() => Promise<T>} fn - Function to retry
- * @param {number} [retries] - Maximum number of retry attempts
- * @param {number} [delay] - Base delay between retries in milliseconds
+ * @param {number} retries - Maximum number of retry attempts
+ * @param {number} delay - Base delay between retries in milliseconds
+ * @param {Function} [onRetry] - Called with the failed attempt, the delay before the next one and the error
+ * @param {AbortSignal} [signal] - Stops retrying, including during the delay, when aborted
  * @returns {Promise<T>} Result of the successful attempt
- * @throws {Error} If all retry attempts fail
+ * @throws {Error} If all retry attempts fail, or the signal is aborted
  */
 const retry = async <T>(
     fn: () => Promise<T>, 
-    retries: number = CONFIG.RETRY.ATTEMPTS, 
-    delay: number = CONFIG.RETRY.DELAY
+    retries: number, 
+    delay: number,
+    onRetry?: (attempt: number, delay: number, error: Error) => void,
+    signal?: AbortSignal
 ): Promise<T> => {
     for (let i = 0; i < retries; i++) {
+        throwIfAborted(signal);
         try {
             return await fn();
         } catch (error) {
-            console.log(`Attempt ${i + 1} failed: ${(error as Error).message}`);
-            if (i < retries - 1) {
-                await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, i)));
+            if (i < retries - 1 && !signal?.aborted) {
+                const wait = delay * Math.pow(2, i);
+                onRetry?.(i + 1, wait, error as Error);
+                await abortableDelay(wait, signal);
             } else {
                 throw error;
             }
@@ -134,69 +241,193 @@ const retry = async <T>(
     throw new Error('Retry failed');
 };
 
+/**
+ * Loads a live page within the host's rate limit, checking robots.txt first when enabled
+ * A Crawl-delay in robots.txt raises the interval between page loads of the host
+ * @param {string} url - Page URL
+ * @param {ResolvedSettings} settings - Scraper settings
+ * @param {RunScraperOptions} options - Run options
+ * @param {RobotsFetcher} fetchRobots - Fetches robots.txt the same way the page is loaded
+ * @param {() => Promise<T>} load - Loads the page and extracts its rows
+ * @returns {Promise<T>} Result of load
+ * @throws {Error} If robots.txt disallows the page for the user agent
+ */
+const loadPolitely = async <T>(
+    url: string,
+    settings: ResolvedSettings,
+    options: RunScraperOptions,
+    fetchRobots: RobotsFetcher,
+    load: () => Promise<T>
+): Promise<T> => {
+    let crawlDelay = 0;
+    if (settings.robotsTxt) {
+        const robots = await checkRobotsTxt(url, settings.userAgent, fetchRobots);
+        if (!robots.allowed) {
+            throw new Error(`robots.txt of ${new URL(url).origin} disallows ${url} for user agent "${settings.userAgent}"`);
+        }
+        crawlDelay = (robots.crawlDelay || 0) * 1000;
+    }
+    const limit = { ...settings.rateLimit, interval: Math.max(settings.rateLimit.interval, crawlDelay) };
+    return (options.hostLimiter || hostLimiter).schedule(url, limit, load, options.signal);
+};
+
 /**
  * Configures a page with request interception and navigation
  * @param {playwright.BrowserContext} context - Browser context to create page from
  * @param {string} url - URL to navigate to
+ * @param {ResolvedSettings} settings - Scraper settings
  * @returns {Promise<playwright.Page>} Configured page instance
  */
-const setupPage = async (context: playwright.BrowserContext, url: string): Promise<playwright.Page> => {
+const setupPage = async (context: playwright.BrowserContext, url: string, settings: ResolvedSettings): Promise<playwright.Page> => {
     const page = await context.newPage();
 
     // Block unnecessary resources to improve performance
     await page.route('**/*', (route) => {
         const request = route.request();
-        route[CONFIG.BLOCKED_RESOURCES.includes(request.resourceType() as any) ? 'abort' : 'continue']();
+        route[settings.blockedResources.includes(request.resourceType()) ? 'abort' : 'continue']();
     });
 
     await page.goto(url, {
-        timeout: CONFIG.PAGE_LOAD.TIMEOUT,
-        waitUntil: CONFIG.PAGE_LOAD.WAIT_UNTIL
+        timeout: settings.pageLoad.timeout,
+        waitUntil: settings.pageLoad.waitUntil
     });
 
     return page;
 };
 
 /**
- * Writes channel data to a JSON file
+ * Configures a page from a saved snapshot
+ * All network requests are aborted so the page is rendered from the snapshot alone
+ * @param {playwright.BrowserContext} context - Browser context to create page from
+ * @param {string} html - Snapshot HTML to load
+ * @param {ResolvedSettings} settings - Scraper settings
+ * @returns {Promise<playwright.Page>} Configured page instance
+ */
+const setupReplayPage = async (context: playwright.BrowserContext, html: string, settings: ResolvedSettings): Promise<playwright.Page> => {
+    const page = await context.newPage();
+
+    await page.route('**/*', (route) => route.abort());
+    await page.setContent(html, {
+        timeout: settings.pageLoad.timeout,
+        waitUntil: 'domcontentloaded'
+    });
+
+    return page;
+};
+
+/**
+ * Resolves the snapshot file path for a scraper run
+ * @param {ScraperConfig} config - Scraper configuration
+ * @param {RunScraperOptions} options - Run options
+ * @returns {string} Absolute path of the snapshot file
+ * @throws {Error} If no snapshot name can be determined
+ */
+export const getSnapshotPath = (config: ScraperConfig, options: RunScraperOptions): string => {
+    const name = options.snapshotName
+        || (config.outputFile && path.basename(config.outputFile, path.extname(config.outputFile)));
+    if (!name) {
+        throw new Error(`No snapshot name for ${config.url}, set snapshotName or outputFile`);
+    }
+    const dir = path.resolve(options.snapshotDir || resolveSettings(options.settings, config.settings).snapshotDir);
+    return path.join(dir, `${name.toLowerCase()}.html`);
+};
+
+/**
+ * Names a scraper run after its snapshot name, output file or host
+ */
+const getRunName = (config: ScraperConfig, options: RunScraperOptions): string => options.snapshotName
+    || (config.outputFile ? path.basename(config.outputFile, path.extname(config.outputFile)) : new URL(config.url).hostname);
+
+/**
+ * Writes channel data to a file per output format
+ * The extension of filename is replaced by each format's extension
  * Creates output directory if it doesn't exist
  * @param {Channel[]} output - Channel data to write
  * @param {string} filename - Name of the output file
- * @throws {Error} If file writing fails
+ * @param {string} outputDir - Directory to write to
+ * @param {string[]} [formats] - Output formats, defaults to JSON only
+ * @throws {Error} If a format is unknown or file writing fails
  */
-const writeOutputToFile = (output: Channel[], filename: string): void => {
-    const outputPath = path.join(__dirname, '..', CONFIG.OUTPUT_DIR, filename);
-    try {
-        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
-        fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
-    } catch (error) {
-        console.error(`Error writing to file ${filename}:`, error);
-        throw error;
-    }
+const writeOutputToFile = (output: Channel[], filename: string, outputDir: string, formats: string[] = ['json']): void => {
+    const basename = path.basename(filename, path.extname(filename));
+    formats.map(getExporter).forEach(exporter => {
+        const outputPath = path.join(outputDir, path.dirname(filename), `${basename}.${exporter.extension}`);
+        try {
+            fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+            fs.writeFileSync(outputPath, exporter.export([{ provider: basename, channels: output }]));
+        } catch (error) {
+            console.error(`Error writing to file ${outputPath}:`, error);
+            throw error;
+        }
+    });
+};
+
+/**
+ * Detects HD, UHD and timeshift variants from a raw channel name
+ * @param {string} name - Raw channel name from provider
+ * @returns Variant flags, and the raw name of the base channel for timeshifts
+ */
+const detectVariant = (name: string): { isHD: boolean; isUHD: boolean; timeshiftBase?: string } => {
+    const timeshift = /\s*\+\s*1\b/;
+    return {
+        isHD: /\bHD\b/i.test(name),
+        isUHD: /\b(?:UHD|4K)\b/i.test(name),
+        timeshiftBase: timeshift.test(name) ? name.replace(timeshift, '').trim() : undefined
+    };
 };
 
 /**
  * Processes raw scraped data into standardized channel format
- * Applies name normalization and overrides
+ * Applies name normalization and overrides, resolves the canonical channel ID,
+ * and fills in variant flags and any extra fields the scraper provided
  * @param {Partial<Channel>[]} data - Raw channel data
  * @param {Record<string, string>} [overrides] - Channel name mappings
+ * @param {NormalizationStep} [normalize] - Name normalizer, the default pipeline when unset
  * @returns {Channel[]} Processed channel list
  */
 const processData = (
     data: Partial<Channel>[], 
-    overrides: Record<string, string> = {}
+    overrides: Record<string, string> = {},
+    normalize: NormalizationStep = normalizeChannelName
 ): Channel[] => {
     return data
         .map(item => {
             if (!item?.name || !item?.number) return null;
             
-            const normalizedName = normalizeChannelName(item.name);
+            const normalizedName = normalize(item.name);
             const finalName = overrides[normalizedName] || normalizedName;
             
             const channel: Channel = {
                 number: item.number,
                 name: finalName
             };
+
+            const canonicalId = resolveCanonicalId(normalizedName) || resolveCanonicalId(finalName);
+            if (canonicalId) {
+                channel.canonicalId = canonicalId;
+            }
+
+            const variant = detectVariant(item.name);
+            if (item.altNumbers?.length) {
+                channel.altNumbers = item.altNumbers;
+            }
+            const timeshiftOf = item.timeshiftOf ?? variant.timeshiftBase;
+            if (timeshiftOf) {
+                const baseName = normalize(timeshiftOf);
+                channel.timeshiftOf = overrides[baseName] || baseName;
+            }
+            if (item.isHD ?? variant.isHD) {
+                channel.isHD = true;
+            }
+            if (item.isUHD ?? variant.isUHD) {
+                channel.isUHD = true;
+            }
+            if (item.region) {
+                channel.region = item.region;
+            }
+            if (item.category) {
+                channel.category = item.category;
+            }
             
             return channel;
         })
@@ -204,64 +435,296 @@ const processData = (
 };
 
 /**
- * Executes a scraper with the given configuration
- * @param {ScraperConfig} config - Scraper configuration
- * @returns {Promise<Channel[]>} Array of scraped channels
+ * Runs the extraction with retries, reporting each retry
+ */
+const extractWithRetry = (
+    extract: () => Promise<Partial<Channel>[]>,
+    settings: ResolvedSettings,
+    options: RunScraperOptions
+): Promise<Partial<Channel>[]> => retry(
+    extract,
+    settings.retry.attempts,
+    settings.retry.delay,
+    (attempt, delay, error) => options.onProgress?.({ type: 'retry-scheduled', attempt, delay, error: error.message }),
+    options.signal
+);
+
+/**
+ * Runs a scrape, saving its diagnostics when it fails or its rows fail validation
+ * Failing to save them is ignored, so the scrape's own outcome is what is reported
  */
-export async function runScraper(config: ScraperConfig): Promise<Channel[]> {
-    const { browser, context } = await setupBrowser();
+const withDiagnostics = async (
+    scrape: () => Promise<Partial<Channel>[]>,
+    save: (dir: string, error: Error) => Promise<DiagnosticsBundle> | DiagnosticsBundle,
+    config: ScraperConfig,
+    options: RunScraperOptions,
+    diagnostics?: RunDiagnostics
+): Promise<Partial<Channel>[]> => {
+    if (!diagnostics) {
+        return scrape();
+    }
+    const report = async (error: Error) => {
+        try {
+            options.onProgress?.({ type: 'diagnostics-saved', url: config.url, diagnostics: await save(diagnostics.dir, error) });
+        } catch {
+            // Nothing more to report
+        }
+    };
+
+    let data: Partial<Channel>[];
     try {
-        const page = await setupPage(context, config.url);
-        const data = await retry(() => config.scrapeFunction(page));
-        const channels = processData(data, config.overrides);
-        
-        // Write to file if outputFile is specified
-        if (config.outputFile) {
-            writeOutputToFile(channels, config.outputFile);
+        data = await scrape();
+    } catch (error) {
+        // A cancelled run's browser context is already closed
+        if (!options.signal?.aborted) {
+            await report(error as Error);
         }
-        
-        return channels;
+        throw error;
+    }
+    const failure = diagnostics.check(data);
+    if (failure) {
+        await report(failure);
+    }
+    return data;
+};
+
+/**
+ * Loads the page in Chromium and extracts its rows
+ */
+const scrapeInBrowser = async (
+    config: ScraperConfig,
+    settings: ResolvedSettings,
+    options: RunScraperOptions,
+    snapshotPath?: string,
+    diagnostics?: RunDiagnostics
+): Promise<Partial<Channel>[]> => {
+    const { scrapeFunction, extract } = config;
+    const extractPage = scrapeFunction || (extract && ((page: playwright.Page) => extract(fromPage(page, config.url))));
+    if (!extractPage) {
+        throw new Error(`No scrapeFunction or extract function for ${config.url}`);
+    }
+    const { context, release } = await openContext(settings, options.browserPool);
+    const replay = options.snapshotMode === 'replay';
+    const scrape = async () => {
+        const page = replay && snapshotPath
+            ? await setupReplayPage(context, fs.readFileSync(snapshotPath, 'utf8'), settings)
+            : await setupPage(context, config.url, settings);
+
+        options.onProgress?.({ type: 'navigated', url: config.url, replay });
+
+        if (options.snapshotMode === 'record' && snapshotPath) {
+            fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+            fs.writeFileSync(snapshotPath, await page.content());
+        }
+
+        return extractWithRetry(() => extractPage(page), settings, options);
+    };
+    // robots.txt is requested through the context, with the page's proxy and user agent
+    const fetchRobots: RobotsFetcher = async url => {
+        const response = await context.request.get(url, { timeout: settings.pageLoad.timeout });
+        return { status: response.status(), body: await response.text() };
+    };
+    // Closing the context on abort ends a hung navigation or scrapeFunction straight away
+    const onAbort = () => {
+        release().catch(() => undefined);
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let recording: ContextDiagnostics | undefined;
+    try {
+        if (diagnostics) {
+            recording = await recordContextDiagnostics(context);
+        }
+        return await withDiagnostics(
+            () => abortable(replay ? scrape() : loadPolitely(config.url, settings, options, fetchRobots, scrape), options.signal),
+            (dir, error) => recording ? recording.save(dir, error, settings.pageLoad.timeout) : writeDiagnostics(dir, error),
+            config,
+            options,
+            diagnostics
+        );
     } finally {
-        await browser.close();
+        await recording?.discard();
+        options.signal?.removeEventListener('abort', onAbort);
+        await release();
     }
-}
+};
 
 /**
- * Parse command line arguments
+ * Fetches the page over HTTP, or reads its snapshot, and extracts its rows without a browser
  */
-function parseArgs(): { writeFiles: boolean } {
-    return {
-        writeFiles: process.argv.includes('--files')
+const scrapeOverHttp = async (
+    config: ScraperConfig,
+    settings: ResolvedSettings,
+    options: RunScraperOptions,
+    snapshotPath?: string,
+    diagnostics?: RunDiagnostics
+): Promise<Partial<Channel>[]> => {
+    const { extract } = config;
+    if (!extract) {
+        throw new Error(`No extract function for ${config.url}`);
+    }
+    const fetchOptions = { userAgent: settings.userAgent, timeout: settings.pageLoad.timeout, proxy: settings.proxy, signal: options.signal };
+    let html: string | undefined;
+    const scrape = async () => {
+        html = options.snapshotMode === 'replay' && snapshotPath
+            ? fs.readFileSync(snapshotPath, 'utf8')
+            : await loadPolitely(config.url, settings, options, url => fetchText(url, fetchOptions), () => fetchHtml(config.url, fetchOptions));
+
+        options.onProgress?.({ type: 'navigated', url: config.url, replay: options.snapshotMode === 'replay' });
+
+        if (options.snapshotMode === 'record' && snapshotPath) {
+            fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+            fs.writeFileSync(snapshotPath, html);
+        }
+
+        const document = fromHtml(html, config.url);
+        return abortable(extractWithRetry(() => extract(document), settings, options), options.signal);
     };
+
+    return withDiagnostics(scrape, (dir, error) => writeDiagnostics(dir, error, { html }), config, options, diagnostics);
+};
+
+/**
+ * Executes a scraper with the given configuration
+ * In http mode the page is fetched and parsed without launching a browser
+ * With a diagnostics directory in the settings, a run that fails or whose lineup fails the config's
+ * validation saves its diagnostics there and reports them as a diagnostics-saved progress event
+ * @param {ScraperConfig} config - Scraper configuration
+ * @param {RunScraperOptions} [options] - Run options, e.g. snapshot record/replay or region
+ * @returns {Promise<Channel[]>} Array of scraped channels
+ * @throws {Error} If replaying and the snapshot file does not exist, or the config has no extraction for its mode
+ * @throws {ScrapeCancelledError | ScrapeTimeoutError} If options.signal is aborted before the run finishes
+ */
+export async function runScraper(config: ScraperConfig, options: RunScraperOptions = {}): Promise<Channel[]> {
+    if (config.mode === 'http' ? !config.extract : !config.scrapeFunction && !config.extract) {
+        throw new Error(`No ${config.mode === 'http' ? 'extract function' : 'scrapeFunction or extract function'} for ${config.url}`);
+    }
+    const resolved = resolveSettings(options.settings, config.settings);
+    const settings = { ...resolved, userAgent: pickUserAgent(resolved) };
+    const snapshotPath = options.snapshotMode ? getSnapshotPath(config, options) : undefined;
+    if (options.snapshotMode === 'replay' && snapshotPath && !fs.existsSync(snapshotPath)) {
+        throw new Error(`Snapshot ${snapshotPath} not found`);
+    }
+    throwIfAborted(options.signal);
+
+    const normalize = createNormalizer(config.normalization);
+    const validation = config.validation;
+    const diagnostics: RunDiagnostics | undefined = settings.diagnosticsDir
+        ? {
+            dir: getDiagnosticsDir(settings.diagnosticsDir, getRunName(config, options)),
+            check: data => validation && validateChannels(
+                selectRegion(processData(data, config.overrides, normalize), options.region),
+                validation,
+                options.previousChannels
+            ).find(error => error.severity === 'error')
+        }
+        : undefined;
+
+    const data = config.mode === 'http'
+        ? await scrapeOverHttp(config, settings, options, snapshotPath, diagnostics)
+        : await scrapeInBrowser(config, settings, options, snapshotPath, diagnostics);
+    const channels = processData(data, config.overrides, normalize);
+    options.onProgress?.({ type: 'rows-extracted', rows: data.length, channels: channels.length });
+    const lineup = selectRegion(channels, options.region);
+
+    // Write to file if outputFile is specified
+    if (config.outputFile) {
+        writeOutputToFile(lineup, config.outputFile, settings.outputDir, options.formats);
+    }
+
+    return options.includeAllRegions ? channels : lineup;
 }
 
 /**
  * Execute a scraper configuration from the command line
+ * Accepts the scrape command's output, region, snapshot and config flags
  * Handles argument parsing and output formatting
  */
 export async function runScraperCLI(config: ScraperConfig): Promise<void> {
-    const { writeFiles } = parseArgs();
+    const provider = config.outputFile
+        ? path.basename(config.outputFile, path.extname(config.outputFile))
+        : new URL(config.url).hostname;
+
+    let args: Args;
+    try {
+        args = parseScraperArgs();
+    } catch (error) {
+        if (!(error instanceof UsageError)) throw error;
+        console.error(error.message);
+        console.error(`Run "npm run scrape:${provider} -- --help" for usage.`);
+        process.exit(1);
+    }
+    if (args.help) {
+        console.log(formatScraperHelp(`npm run scrape:${provider} --`));
+        return;
+    }
+
+    const { writeFiles, formats, region } = args;
+    const logger = createLogger({ level: args.logLevel, format: args.logFormat });
     
     try {
-        let channels: Channel[];
+        formats.forEach(getExporter);
+        if (!writeFiles && formats.length > 1) {
+            throw new Error('Multiple formats can only be written with --write-files');
+        }
+
+        const fileConfig = loadConfig(args.config);
+        let channels: Channel[] = [];
         
         if (config.runCustom) {
             channels = await config.runCustom({ writeFiles });
         } else {
-            // Remove outputFile from config if we're not writing to files
+            // The lineup is written once a source's lineup passes validation
             const runConfig = {
                 ...config,
-                outputFile: writeFiles ? config.outputFile : undefined
+                outputFile: undefined,
+                settings: mergeSettings(config.settings, getProviderSettings(fileConfig, provider))
             };
-            channels = await runScraper(runConfig);
+            const settings = args.diagnosticsDir ? { ...fileConfig, diagnosticsDir: path.resolve(args.diagnosticsDir) } : fileConfig;
+            const { outputDir } = resolveSettings(settings, runConfig.settings);
+            const previousChannels = config.validation?.maxChangePercent !== undefined
+                ? readPreviousChannels(provider, outputDir)
+                : undefined;
+            // Fall back to the next source when a page fails to load or its lineup fails validation
+            const sources = listSources(runConfig);
+            for (const [index, source] of sources.entries()) {
+                try {
+                    channels = await runScraper(withSource(runConfig, source), {
+                        region,
+                        settings,
+                        snapshotMode: args.snapshotMode,
+                        snapshotDir: args.snapshotDir,
+                        snapshotName: sourceSnapshotName(provider, index),
+                        ...(previousChannels && { previousChannels }),
+                        onProgress: progress => logScrapeEvent(logger, { ...progress, provider, timestamp: Date.now() })
+                    });
+                    const failure = config.validation && validateChannels(channels, config.validation, previousChannels)
+                        .find(error => error.severity === 'error');
+                    if (failure) throw failure;
+                    break;
+                } catch (error) {
+                    if (index === sources.length - 1) throw error;
+                    logScrapeEvent(logger, {
+                        type: 'source-failed',
+                        url: source.url,
+                        error: (error as Error).message,
+                        next: sources[index + 1].url,
+                        provider,
+                        timestamp: Date.now()
+                    });
+                }
+            }
+            if (writeFiles && config.outputFile) {
+                writeOutputToFile(channels, config.outputFile, outputDir, formats);
+            }
         }
 
         if (!writeFiles) {
-            // Output JSON directly
-            console.log(JSON.stringify(channels, null, 2));
+            // Output directly in the requested format
+            console.log(exportChannels([{ provider, channels }], formats[0]));
         }
     } catch (error) {
         console.error('Error:', error);
         process.exit(1);
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,301 @@
+/**
+ * HTTP server exposing lineups as a REST API
+ * Lets services that cannot run a browser fetch lineups over HTTP. Each provider's last
+ * good result is kept in memory and written to disk, so a failed refresh or a restart
+ * still serves the previous lineup.
+ *
+ * Endpoints:
+ * - GET  /providers                       every provider with its scrape status
+ * - GET  /providers/:name                 one provider's scrape status
+ * - GET  /providers/:name/channels        the lineup, with ?format= and ?region=
+ * - POST /providers/:name/refresh         scrape the provider now
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { ScraperResult, ScrapingOptions } from '../index';
+import type { Channel } from './scraper';
+import { getProvider, listProviders, type ProviderEntry } from './registry';
+import { exportChannels, getExporter } from './exporters';
+import { findRegion } from './regions';
+import { readSavedLineup, writeResultsToFiles } from './fileUtils';
+import { defaultLogger } from './logger';
+
+/**
+ * Scrapes a provider by name, i.e. scrapeProvider
+ */
+export type ProviderScraper = (name: string, options?: ScrapingOptions) => Promise<ScraperResult>;
+
+/**
+ * Scrape status of a provider
+ * - idle: not scraped yet
+ * - scraping: a scrape is in progress
+ * - ok: the last scrape succeeded
+ * - failed: the last scrape failed, the last good lineup is still served
+ */
+export type ProviderStatus = 'idle' | 'scraping' | 'ok' | 'failed';
+
+/**
+ * Status of a provider as reported by the server
+ * @property {string} name - Provider name
+ * @property {string} url - URL the provider is scraped from
+ * @property {string[]} [regions] - Regions with their own lineups
+ * @property {ProviderStatus} status - Scrape status
+ * @property {string} [lastAttemptAt] - ISO time the last scrape finished
+ * @property {string} [lastSuccessAt] - ISO time of the lineup being served
+ * @property {number} [channelCount] - Number of channels in the lineup being served
+ * @property {string} [error] - Error message of the last scrape, if it failed
+ */
+export interface ProviderState {
+    name: string;
+    url: string;
+    regions?: string[];
+    status: ProviderStatus;
+    lastAttemptAt?: string;
+    lastSuccessAt?: string;
+    channelCount?: number;
+    error?: string;
+}
+
+/**
+ * Options for the lineup server
+ * @property {ScrapingOptions} [scrapingOptions] - Options passed to every scrape, e.g. config or snapshots
+ * @property {string} [outputDir] - Directory last good lineups are read from and written to, defaults to the package's data directory
+ */
+export interface LineupServerOptions {
+    scrapingOptions?: ScrapingOptions;
+    outputDir?: string;
+}
+
+/**
+ * A lineup server
+ */
+export interface LineupServer {
+    /** The underlying HTTP server */
+    server: http.Server;
+    /** Starts listening, resolving with the bound address */
+    listen: (port?: number, host?: string) => Promise<AddressInfo>;
+    /** Stops accepting connections and waits for open ones to finish */
+    close: () => Promise<void>;
+}
+
+/**
+ * In-memory state of a provider
+ */
+interface Entry {
+    status: ProviderStatus;
+    lastAttemptAt?: Date;
+    lastSuccessAt?: Date;
+    error?: string;
+    channels?: Channel[];
+    regions?: Record<string, Channel[]>;
+    scraping?: Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    json: 'application/json',
+    xml: 'application/xml',
+    csv: 'text/csv',
+    m3u: 'audio/x-mpegurl'
+};
+
+/**
+ * Error with the HTTP status it should be reported with
+ */
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown): void => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, null, 2));
+};
+
+/**
+ * Creates a server for the providers in the registry
+ * Providers are looked up on every request, so providers registered later are served too
+ * @param {ProviderScraper} scrape - Function scraping a provider by name
+ * @param {LineupServerOptions} [options] - Server options
+ * @returns {LineupServer} The server, not yet listening
+ */
+export function createLineupServer(scrape: ProviderScraper, options: LineupServerOptions = {}): LineupServer {
+    const entries = new Map<string, Entry>();
+
+    /**
+     * Gets a provider's state, loading its last good lineup from disk on first use
+     */
+    const getEntry = ({ name, config }: ProviderEntry): Entry => {
+        const key = name.toLowerCase();
+        let entry = entries.get(key);
+        if (!entry) {
+            entry = { status: 'idle' };
+            const saved = readSavedLineup(name, options.outputDir);
+            if (saved) {
+                entry.channels = saved.channels;
+                entry.lastSuccessAt = saved.savedAt;
+                const regions = (config.regions || [])
+                    .map(region => [region, readSavedLineup(name, options.outputDir, region)?.channels] as const)
+                    .filter((pair): pair is readonly [string, Channel[]] => pair[1] !== undefined);
+                if (regions.length) {
+                    entry.regions = Object.fromEntries(regions);
+                }
+            }
+            entries.set(key, entry);
+        }
+        return entry;
+    };
+
+    /**
+     * Scrapes a provider, sharing the scrape with any concurrent refresh
+     * A forced refresh bypasses the result cache
+     */
+    const refresh = (provider: ProviderEntry, force: boolean = false): Promise<void> => {
+        const entry = getEntry(provider);
+        if (!entry.scraping) {
+            entry.status = 'scraping';
+            entry.scraping = scrape(provider.name, { ...options.scrapingOptions, splitRegions: true, ...(force && { force }) })
+                .catch((error: Error): ScraperResult => ({ name: provider.name, success: false, duration: 0, error }))
+                .then(result => {
+                    entry.lastAttemptAt = new Date();
+                    if (result.success && result.channels) {
+                        entry.status = 'ok';
+                        entry.lastSuccessAt = entry.lastAttemptAt;
+                        entry.channels = result.channels;
+                        entry.regions = result.regions;
+                        entry.error = undefined;
+                        try {
+                            writeResultsToFiles([result], ['json'], options.outputDir);
+                        } catch (error) {
+                            (options.scrapingOptions?.logger || defaultLogger).error(
+                                `Error writing ${provider.name} lineup: ${(error as Error).message}`,
+                                { provider: provider.name }
+                            );
+                        }
+                    } else {
+                        entry.status = 'failed';
+                        entry.error = result.error?.message || 'Scrape failed';
+                    }
+                })
+                .finally(() => {
+                    entry.scraping = undefined;
+                });
+        }
+        return entry.scraping;
+    };
+
+    const describe = (provider: ProviderEntry): ProviderState => {
+        const entry = getEntry(provider);
+        return {
+            name: provider.name,
+            url: provider.config.url,
+            ...(provider.config.regions?.length && { regions: provider.config.regions }),
+            status: entry.status,
+            ...(entry.lastAttemptAt && { lastAttemptAt: entry.lastAttemptAt.toISOString() }),
+            ...(entry.lastSuccessAt && { lastSuccessAt: entry.lastSuccessAt.toISOString() }),
+            ...(entry.channels && { channelCount: entry.channels.length }),
+            ...(entry.error && { error: entry.error })
+        };
+    };
+
+    const findProvider = (name: string): ProviderEntry => {
+        const provider = getProvider(name);
+        if (!provider) {
+            throw new HttpError(404, `Provider "${name}" not found`);
+        }
+        return provider;
+    };
+
+    const sendChannels = async (res: http.ServerResponse, provider: ProviderEntry, query: URLSearchParams) => {
+        const format = (query.get('format') || 'json').toLowerCase();
+        let exporter;
+        try {
+            exporter = getExporter(format);
+        } catch (error) {
+            throw new HttpError(400, (error as Error).message);
+        }
+
+        const requested = query.get('region');
+        const region = requested ? findRegion(provider.config.regions || [], requested) : undefined;
+        if (requested && !region) {
+            const supported = provider.config.regions?.length ? provider.config.regions.join(', ') : 'none';
+            throw new HttpError(404, `Provider "${provider.name}" does not support region "${requested}", expected one of: ${supported}`);
+        }
+
+        // A lineup that has not been saved yet, national or regional, is scraped on first request
+        const entry = getEntry(provider);
+        if (region ? !entry.regions?.[region] : !entry.channels) {
+            await refresh(provider);
+        }
+        const channels = region ? entry.regions?.[region] : entry.channels;
+        if (!channels) {
+            throw new HttpError(502, entry.error || `No lineup available for ${provider.name}`);
+        }
+
+        res.writeHead(200, {
+            'Content-Type': CONTENT_TYPES[exporter.extension] || 'text/plain',
+            ...(entry.lastSuccessAt && { 'Last-Modified': entry.lastSuccessAt.toUTCString() }),
+            'X-Scrape-Status': entry.status
+        });
+        res.end(exportChannels([{ provider: provider.name, channels }], format));
+    };
+
+    const handle = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        let segments: string[];
+        try {
+            segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+        } catch {
+            throw new HttpError(400, 'Malformed URL');
+        }
+        const [root, name, action, ...rest] = segments;
+        const route = (method: string) => {
+            if (req.method !== method) {
+                throw new HttpError(405, `Method ${req.method} not allowed`);
+            }
+        };
+
+        if (root !== 'providers' || rest.length) {
+            throw new HttpError(404, `Not found: ${url.pathname}`);
+        }
+        if (!name) {
+            route('GET');
+            sendJson(res, 200, listProviders().map(describe));
+        } else if (!action) {
+            route('GET');
+            sendJson(res, 200, describe(findProvider(name)));
+        } else if (action === 'channels') {
+            route('GET');
+            await sendChannels(res, findProvider(name), url.searchParams);
+        } else if (action === 'refresh') {
+            route('POST');
+            const provider = findProvider(name);
+            await refresh(provider, true);
+            const state = describe(provider);
+            sendJson(res, state.status === 'ok' ? 200 : 502, state);
+        } else {
+            throw new HttpError(404, `Not found: ${url.pathname}`);
+        }
+    };
+
+    const server = http.createServer((req, res) => {
+        handle(req, res).catch(error => {
+            sendJson(res, error instanceof HttpError ? error.status : 500, { error: (error as Error).message });
+        });
+    });
+
+    return {
+        server,
+        listen: (port = 3000, host) => new Promise((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, host, () => {
+                server.removeListener('error', reject);
+                resolve(server.address() as AddressInfo);
+            });
+        }),
+        close: () => new Promise((resolve, reject) => {
+            server.close(error => (error ? reject(error) : resolve()));
+        })
+    };
+}
@@ -0,0 +1,47 @@
+/**
+ * Provider sources
+ * A provider is scraped from its url, and when that page fails to load or its lineup fails
+ * validation, from each of its fallback sources in turn. These helpers turn a provider's
+ * configuration into the configuration of each source.
+ */
+
+import type { ScraperConfig, ScraperSource } from './scraper';
+
+/**
+ * Lists the pages a provider can be scraped from, in the order they are tried
+ * @param {ScraperConfig} config - Scraper configuration
+ * @returns {ScraperSource[]} The provider's own url first, then its fallback sources
+ */
+export function listSources(config: ScraperConfig): ScraperSource[] {
+    return [
+        { url: config.url, scrapeFunction: config.scrapeFunction, extract: config.extract, mode: config.mode, overrides: config.overrides },
+        ...(config.sources || [])
+    ];
+}
+
+/**
+ * Builds the configuration that scrapes a provider from one of its sources
+ * @param {ScraperConfig} config - Scraper configuration
+ * @param {ScraperSource} source - Source to scrape
+ * @returns {ScraperConfig} The configuration with the source's url, extraction, mode and overrides
+ */
+export function withSource(config: ScraperConfig, source: ScraperSource): ScraperConfig {
+    return {
+        ...config,
+        url: source.url,
+        scrapeFunction: source.scrapeFunction,
+        extract: source.extract,
+        mode: source.mode,
+        overrides: source.overrides || config.overrides
+    };
+}
+
+/**
+ * Names the snapshot of a source, e.g. "sky" for the provider's url and "sky-2" for its first fallback
+ * @param {string} name - Snapshot name of the provider
+ * @param {number} index - Position of the source in listSources
+ * @returns {string} Snapshot file name without extension
+ */
+export function sourceSnapshotName(name: string, index: number): string {
+    return index ? `${name}-${index + 1}` : name;
+}
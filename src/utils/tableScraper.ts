@@ -0,0 +1,216 @@
+/**
+ * Declarative table scrapers
+ * Most lineup pages are a single table: pick the number and name columns, skip heading
+ * rows, tidy up the numbers. A TableScraperDefinition describes that in plain data
+ * (TypeScript, JSON or YAML) and createTableScraper builds the ScraperConfig for it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import type { Channel, ScraperConfig } from './scraper';
+import type { ExtractionMode, LineupDocument, RowCells } from './document';
+import type { NormalizationStepName } from './normalize';
+import type { ValidationRules } from './validation';
+
+/**
+ * Matches a row by the text of one of its columns
+ * @property {string} column - Column name from the definition's columns
+ * @property {string} [contains] - Matches when the text contains this string
+ * @property {string} [startsWith] - Matches when the text starts with this string
+ * @property {string} [matches] - Matches when the text matches this regular expression
+ * @property {boolean} [empty] - Matches when the text is empty
+ */
+export interface TableRowRule {
+    column: string;
+    contains?: string;
+    startsWith?: string;
+    matches?: string;
+    empty?: boolean;
+}
+
+/**
+ * Declarative description of a table-based lineup page
+ * @property {string} name - Provider name the scraper is registered under
+ * @property {string} url - URL of the lineup page
+ * @property {ExtractionMode} [mode] - Render the page in Chromium (browser, the default) or fetch and parse it without a browser (http)
+ * @property {string} rowSelector - Selector for the table rows
+ * @property {number} [skipRows] - Number of leading rows to ignore, e.g. a header row outside thead
+ * @property {Record<string, string>} columns - Selectors, relative to the row, for number, name and optionally region
+ * @property {TableRowRule[]} [skip] - Rows matching any rule are ignored
+ * @property {TableRowRule & { from: string }} [categoryRows] - Rows matching this rule are category headings; the text of the from column becomes the category of the rows that follow
+ * @property {{ separator?: string, timeshiftSeparator?: string }} [numbers] - Number post-processing: split a cell listing several numbers, and cut the timeshift suffix off the first; the listed numbers other than the channel's own, timeshift feeds included, become altNumbers
+ * @property {string} [regionPrefix] - Prefix of the region column for regional variants, e.g. "In "
+ * @property {Record<string, string>} [overrides] - Channel name standardization mappings, keyed by normalized name
+ * @property {NormalizationStepName[]} [normalization] - Built-in steps names are normalized with, the default pipeline when unset
+ * @property {string} [outputFile] - Name of the file to store results in
+ * @property {Omit<ValidationRules, 'numberFormat'> & { numberFormat?: string | RegExp }} [validation] - Sanity checks, with numberFormat as a regular expression string
+ * @property {string[]} [regions] - Regions with their own lineup variants
+ * @property {TableSource[]} [sources] - Fallback tables tried in order when the url fails to load or its lineup fails validation
+ */
+export interface TableScraperDefinition {
+    name: string;
+    url: string;
+    mode?: ExtractionMode;
+    rowSelector: string;
+    skipRows?: number;
+    columns: { number: string; name: string; region?: string };
+    skip?: TableRowRule[];
+    categoryRows?: TableRowRule & { from: string };
+    numbers?: { separator?: string; timeshiftSeparator?: string };
+    regionPrefix?: string;
+    overrides?: Record<string, string>;
+    normalization?: NormalizationStepName[];
+    outputFile?: string;
+    validation?: Omit<ValidationRules, 'numberFormat'> & { numberFormat?: string | RegExp };
+    regions?: string[];
+    sources?: TableSource[];
+}
+
+/**
+ * The part of a definition that turns table cells into channel rows
+ */
+type TableExtraction = Pick<TableScraperDefinition, 'skipRows' | 'columns' | 'skip' | 'categoryRows' | 'numbers' | 'regionPrefix'>;
+
+/**
+ * A fallback page for a table definition, with its own table layout and optionally its own mode and overrides
+ */
+export type TableSource = TableExtraction & Pick<TableScraperDefinition, 'url' | 'mode' | 'rowSelector' | 'overrides'>;
+
+const DEFINITION_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Turns the cells of the table rows into channel rows according to the definition
+ */
+const toChannelRows = (rows: RowCells[], table: TableExtraction): Partial<Channel>[] => {
+    const matches = (rule: TableRowRule | undefined, cells: RowCells): boolean => {
+        if (!rule) return false;
+        const text = cells[rule.column] ?? '';
+        return (rule.contains !== undefined && text.includes(rule.contains))
+            || (rule.startsWith !== undefined && text.startsWith(rule.startsWith))
+            || (rule.matches !== undefined && new RegExp(rule.matches).test(text))
+            || (rule.empty === true && text === '');
+    };
+
+    let category = '';
+
+    return rows.slice(table.skipRows || 0).map((cells) => {
+        if (table.categoryRows && matches(table.categoryRows, cells)) {
+            category = cells[table.categoryRows.from] || '';
+            return {};
+        }
+        if ((table.skip || []).some((rule) => matches(rule, cells))) {
+            return {};
+        }
+
+        let number = cells.number;
+        let altNumbers: string[] = [];
+        if (table.numbers) {
+            const { separator, timeshiftSeparator } = table.numbers;
+            const listed = separator
+                ? number.split(separator).map((value) => value.trim()).filter(Boolean)
+                : [number];
+            // A timeshift feed is listed on its channel's number with a suffix, e.g. 501-1, and is kept as it is listed
+            const first = listed[0] || '';
+            number = timeshiftSeparator ? first.split(timeshiftSeparator)[0].trim() : first;
+            altNumbers = listed.filter((value, i) => value !== number && listed.indexOf(value) === i);
+        }
+
+        const regionText = cells.region || '';
+        const region = table.regionPrefix
+            ? (regionText.startsWith(table.regionPrefix) ? regionText.slice(table.regionPrefix.length).trim() : '')
+            : regionText;
+
+        if (!cells.name || !number) {
+            return {};
+        }
+
+        return {
+            number,
+            name: cells.name,
+            ...(altNumbers.length && { altNumbers }),
+            ...(category && { category }),
+            ...(region && { region })
+        };
+    });
+};
+
+/**
+ * Extracts rows from a lineup document according to the definition
+ * Only the cell text is read from the page, so extraction is the same in browser and http mode
+ */
+const extractRows = async (document: LineupDocument, table: TableSource): Promise<Partial<Channel>[]> =>
+    toChannelRows(await document.rows(table.rowSelector, table.columns), table);
+
+/**
+ * Lists the fields a table definition or source is missing
+ */
+const missingTableFields = (table: Partial<TableSource> | undefined): string[] => {
+    const missing: string[] = (['url', 'rowSelector', 'columns'] as const).filter(field => !table?.[field]);
+    if (!missing.length && table?.columns && (!table.columns.number || !table.columns.name)) {
+        missing.push('columns.number/columns.name');
+    }
+    return missing;
+};
+
+/**
+ * Builds a scraper configuration from a table definition
+ * @param {TableScraperDefinition} definition - Table definition
+ * @returns {ScraperConfig} Scraper configuration with a generic extract function, usable in either mode
+ * @throws {Error} If a required field is missing
+ */
+export function createTableScraper(definition: TableScraperDefinition): ScraperConfig {
+    const missing = [...(definition?.name ? [] : ['name']), ...missingTableFields(definition)];
+    (definition?.sources || []).forEach((source, index) => {
+        missing.push(...missingTableFields(source).map(field => `sources[${index}].${field}`));
+    });
+    if (missing.length) {
+        throw new Error(`Table scraper definition${definition?.name ? ` "${definition.name}"` : ''} is missing ${missing.join(', ')}`);
+    }
+
+    const { numberFormat, ...rules } = definition.validation || {};
+    const validation: ValidationRules | undefined = definition.validation
+        ? { ...rules, ...(numberFormat && { numberFormat: new RegExp(numberFormat) }) }
+        : undefined;
+
+    return {
+        url: definition.url,
+        mode: definition.mode,
+        extract: (document) => extractRows(document, definition),
+        overrides: definition.overrides,
+        normalization: definition.normalization,
+        outputFile: definition.outputFile,
+        validation,
+        regions: definition.regions,
+        ...(definition.sources?.length && {
+            sources: definition.sources.map(source => ({
+                url: source.url,
+                mode: source.mode,
+                extract: (document: LineupDocument) => extractRows(document, source),
+                overrides: source.overrides
+            }))
+        })
+    };
+}
+
+/**
+ * Checks whether a file is a table definition by its extension
+ * @param {string} file - File path
+ * @returns {boolean} True for .json, .yaml and .yml files
+ */
+export function isTableDefinitionFile(file: string): boolean {
+    return DEFINITION_EXTENSIONS.includes(path.extname(file).toLowerCase());
+}
+
+/**
+ * Reads table definitions from a JSON or YAML file
+ * A file may hold a single definition or a list of them
+ * @param {string} file - Path to the definition file
+ * @returns {TableScraperDefinition[]} Definitions in the file
+ * @throws {Error} If the file cannot be parsed
+ */
+export function loadTableDefinitions(file: string): TableScraperDefinition[] {
+    const text = fs.readFileSync(file, 'utf8');
+    const data = path.extname(file).toLowerCase() === '.json' ? JSON.parse(text) : YAML.parse(text);
+    return Array.isArray(data) ? data : [data];
+}
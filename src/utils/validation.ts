@@ -0,0 +1,120 @@
+/**
+ * Lineup validation
+ * Sanity checks scraped lineups so a scraper whose selectors silently stop matching
+ * is reported as failed instead of returning an empty or mangled lineup.
+ */
+
+import type { Channel } from './scraper';
+import { diffChannels } from './diff';
+
+/**
+ * Severity of a rule violation
+ * - error: the scrape is marked as failed
+ * - warning: the scrape succeeds but is flagged
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Names of the available validation rules
+ */
+export type ValidationRule = 'minChannels' | 'maxChannels' | 'uniqueNumbers' | 'numberFormat' | 'maxChangePercent';
+
+/**
+ * Per-provider validation rules
+ * @property {number} [minChannels] - Minimum number of channels in the lineup
+ * @property {number} [maxChannels] - Maximum number of channels in the lineup
+ * @property {boolean} [uniqueNumbers] - Whether channel numbers must be unique
+ * @property {RegExp} [numberFormat] - Pattern every channel number must match
+ * @property {number} [maxChangePercent] - Maximum percentage of the previous lineup that may change between runs
+ * @property {Partial<Record<ValidationRule, ValidationSeverity>>} [severity] - Severity overrides per rule
+ */
+export interface ValidationRules {
+    minChannels?: number;
+    maxChannels?: number;
+    uniqueNumbers?: boolean;
+    numberFormat?: RegExp;
+    maxChangePercent?: number;
+    severity?: Partial<Record<ValidationRule, ValidationSeverity>>;
+}
+
+/**
+ * Default severity of each rule
+ * Uniqueness and change checks warn by default as lineups legitimately vary
+ */
+const DEFAULT_SEVERITY: Record<ValidationRule, ValidationSeverity> = {
+    minChannels: 'error',
+    maxChannels: 'error',
+    uniqueNumbers: 'warning',
+    numberFormat: 'error',
+    maxChangePercent: 'warning'
+};
+
+/**
+ * Error describing a single validation rule violation
+ * @property {ValidationRule} rule - The rule that was violated
+ * @property {ValidationSeverity} severity - Severity of the violation
+ * @property {string[]} [details] - Offending values, e.g. duplicate or malformed numbers
+ */
+export class ValidationError extends Error {
+    readonly rule: ValidationRule;
+    readonly severity: ValidationSeverity;
+    readonly details?: string[];
+
+    constructor(rule: ValidationRule, severity: ValidationSeverity, message: string, details?: string[]) {
+        super(message);
+        this.name = 'ValidationError';
+        this.rule = rule;
+        this.severity = severity;
+        this.details = details;
+    }
+}
+
+/**
+ * Validates a lineup against a provider's rules
+ * @param {Channel[]} channels - Processed channels
+ * @param {ValidationRules} rules - Rules to check
+ * @param {Channel[]} [previous] - Lineup from the previous run, required for maxChangePercent
+ * @returns {ValidationError[]} One error per violated rule, empty when the lineup is valid
+ */
+export function validateChannels(channels: Channel[], rules: ValidationRules, previous?: Channel[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const fail = (rule: ValidationRule, message: string, details?: string[]) => {
+        errors.push(new ValidationError(rule, rules.severity?.[rule] || DEFAULT_SEVERITY[rule], message, details));
+    };
+
+    if (rules.minChannels !== undefined && channels.length < rules.minChannels) {
+        fail('minChannels', `Expected at least ${rules.minChannels} channels, got ${channels.length}`);
+    }
+
+    if (rules.maxChannels !== undefined && channels.length > rules.maxChannels) {
+        fail('maxChannels', `Expected at most ${rules.maxChannels} channels, got ${channels.length}`);
+    }
+
+    if (rules.uniqueNumbers) {
+        const seen = new Set<string>();
+        const duplicates = new Set<string>();
+        channels.forEach(({ number }) => (seen.has(number) ? duplicates.add(number) : seen.add(number)));
+        if (duplicates.size > 0) {
+            fail('uniqueNumbers', `${duplicates.size} channel numbers are used more than once`, Array.from(duplicates));
+        }
+    }
+
+    const { numberFormat } = rules;
+    if (numberFormat) {
+        const malformed = channels.map(({ number }) => number).filter(number => !numberFormat.test(number));
+        if (malformed.length > 0) {
+            fail('numberFormat', `${malformed.length} channel numbers do not match ${numberFormat}`, malformed);
+        }
+    }
+
+    if (rules.maxChangePercent !== undefined && previous && previous.length > 0) {
+        const diff = diffChannels('', previous, channels);
+        const changes = diff.added.length + diff.removed.length + diff.renumbered.length + diff.renamed.length;
+        const percent = changes / previous.length * 100;
+        if (percent > rules.maxChangePercent) {
+            fail('maxChangePercent', `${percent.toFixed(1)}% of the lineup changed since the previous run, limit is ${rules.maxChangePercent}%`);
+        }
+    }
+
+    return errors;
+}